@@ -0,0 +1,69 @@
+// Keeps the app shell and built assets available offline. Job data isn't
+// cached here: the app keeps its own copy in IndexedDB (src/data/offlineStore.ts).
+
+const CACHE = 'nichejobs-shell-v2'
+const SHELL = ['/', '/index.html', '/favicon.svg', '/manifest.webmanifest']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+const remember = (key, response) => {
+  if (!response.ok) return
+  const copy = response.clone()
+  caches.open(CACHE).then((cache) => cache.put(key, copy))
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  // Every route is the same single-page app. The network comes first so new
+  // deploys show up; the last copy of the shell is used offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          remember('/index.html', response)
+          return response
+        })
+        .catch(() => caches.match('/index.html'))
+    )
+    return
+  }
+
+  // Built assets have a content hash in their name, so a cached copy is never stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached ?? fetch(request).then((response) => {
+        remember(request, response)
+        return response
+      }))
+    )
+    return
+  }
+
+  // Other files (the manifest, icons) keep their name across deploys, so
+  // they're fetched fresh and the cached copy is only for offline use
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        remember(request, response)
+        return response
+      })
+      .catch(() => caches.match(request).then((cached) => cached ?? Response.error()))
+  )
+})
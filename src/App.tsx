@@ -1,204 +1,722 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Navigate, Route, Routes, useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 import { blink } from './blink/client'
 import { JobBoard } from './components/JobBoard'
 import { PostJobModal } from './components/PostJobModal'
-import { JobDetailsModal } from './components/JobDetailsModal'
+import { JobDetailsRoute } from './components/JobDetailsRoute'
 import { SavedJobsModal } from './components/SavedJobsModal'
+import { MyPostingsModal } from './components/MyPostingsModal'
+import { EditJobRoute } from './components/EditJobRoute'
+import { ApplyRoute } from './components/ApplyRoute'
+import { ApplicationsRoute } from './components/ApplicationsRoute'
+import { CompanyRoute } from './components/CompanyRoute'
+import { CompareJobsRoute } from './components/CompareJobsRoute'
+import { CompareBar } from './components/CompareBar'
+import { MyApplicationsModal } from './components/MyApplicationsModal'
+import { AdminModal } from './components/AdminModal'
+import { ModerationQueueModal } from './components/ModerationQueueModal'
+import { SignInPrompt } from './components/SignInPrompt'
+import { OfflineBanner } from './components/OfflineBanner'
 import { Header } from './components/Header'
 import { Toaster } from './components/ui/toaster'
 import { useToast } from './hooks/use-toast'
-
-export interface Job {
-  id: string
-  title: string
-  company: string
-  location: string
-  salaryMin?: number
-  salaryMax?: number
-  salaryCurrency: string
-  description: string
-  requirements?: string
-  benefits?: string
-  employmentType: string
-  experienceLevel: string
-  applicationType: 'email' | 'link'
-  applicationEmail?: string
-  applicationLink?: string
-  tags: string[]
-  userId: string
-  createdAt: string
-  updatedAt: string
-}
-
-export interface SavedJob {
-  id: string
-  jobId: string
-  userId: string
-  createdAt: string
-}
+import { useI18n } from './hooks/use-i18n'
+import { useNotifications } from './hooks/use-notifications'
+import { useSavedSearches } from './hooks/use-saved-searches'
+import { useCurrentUser } from './hooks/use-current-user'
+import { useModerationQueue } from './hooks/use-moderation-queue'
+import { useCompanies } from './hooks/use-companies'
+import { useOnlineStatus } from './hooks/use-online-status'
+import { useSavedJobs } from './hooks/use-saved-jobs'
+import { useJobFeed } from './hooks/use-job-feed'
+import {
+  EMPTY_JOB_FILTERS,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  isSalarySort,
+  isTextSearch,
+  JOBS_PAGE_SIZE,
+  pageFromSearchParams,
+  SEARCH_POOL_SIZE,
+  viewerCurrency,
+  type JobFilters
+} from './lib/jobFilters'
+import { JobSearchIndex } from './lib/search'
+import { sortBySalary } from './lib/salary'
+import { savedSearchPath } from './lib/searchDigest'
+import { defaultExpiry, isPastExpiry } from './lib/jobStatus'
+import { hasPermission } from './lib/permissions'
+import { hiddenNotification, needsReview } from './lib/moderation'
+import { comparePath, MAX_COMPARED_JOBS } from './lib/compare'
+import {
+  clearPendingAction,
+  readPendingAction,
+  rememberPendingAction,
+  type PendingAction
+} from './lib/pendingAction'
+import { jobsRepository } from './data/jobsRepository'
+import { applicationsRepository } from './data/applicationsRepository'
+import { trackedApplicationsRepository } from './data/trackedApplicationsRepository'
+import { reportsRepository } from './data/reportsRepository'
+import { notificationsRepository } from './data/notificationsRepository'
+import { isOffline, keepOfflineCopy, readOfflineCopy } from './data/offlineStore'
+import type { Application, ApplicationStage } from './types/application'
+import type { Company } from './types/company'
+import type { Job } from './types/job'
+import type { TrackedApplication, TrackedStatus } from './types/trackedApplication'
+import type { AppNotification } from './types/notification'
+import type { JobReport, ReportCategory } from './types/report'
+import type { SavedSearch } from './types/savedSearch'
+import type { UserProfile } from './types/user'
 
 function App() {
-  const [user, setUser] = useState<any>(null)
-  const [loading, setLoading] = useState(true)
   const [jobs, setJobs] = useState<Job[]>([])
-  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
-  const [selectedJob, setSelectedJob] = useState<Job | null>(null)
-  const [showPostJob, setShowPostJob] = useState(false)
-  const [showJobDetails, setShowJobDetails] = useState(false)
-  const [showSavedJobs, setShowSavedJobs] = useState(false)
+  const [totalJobs, setTotalJobs] = useState(0)
+  const [jobsLoading, setJobsLoading] = useState(false)
+  // When the listed jobs were fetched, for spotting changes made since
+  const [jobsFetchedAt, setJobsFetchedAt] = useState<string | null>(null)
+  const [searchPool, setSearchPool] = useState<Job[]>([])
+  const [savedJobsData, setSavedJobsData] = useState<Job[]>([])
+  const [myPostings, setMyPostings] = useState<Job[]>([])
+  const [myPostingsLoading, setMyPostingsLoading] = useState(false)
+  // Applications received for my postings, and the ones I've sent
+  const [postingApplications, setPostingApplications] = useState<Application[]>([])
+  const [myApplications, setMyApplications] = useState<Application[]>([])
+  // The candidate's own tracker, covering email and link applications too
+  const [trackedApplications, setTrackedApplications] = useState<TrackedApplication[]>([])
+  // Jobs I've reported, so they can't be reported twice
+  const [myReports, setMyReports] = useState<JobReport[]>([])
+  // Jobs picked for side-by-side comparison, from the board or saved jobs
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  // Visitors are asked to sign in when they try something that needs an
+  // account; what they tried is replayed after they come back signed in
+  const [signInAction, setSignInAction] = useState<PendingAction | null>(null)
+  const [pendingAction, setPendingAction] = useState(readPendingAction)
   const { toast } = useToast()
+  const { t } = useI18n()
+  const { user, loading, updateUser } = useCurrentUser()
+  const canPostJobs = hasPermission(user, 'postJobs')
+  const canManageRoles = hasPermission(user, 'manageRoles')
+  const canReviewJobs = hasPermission(user, 'reviewJobs')
+  const { notifications, addNotification, markRead } = useNotifications(user?.id)
+  const { savedSearches, newMatches, saveSearch, markSeen, removeSearch } = useSavedSearches(user, addNotification)
+  const online = useOnlineStatus()
+  const { savedJobs, loaded: savedJobsLoaded, toggleSave, updateDetails, forgetJob } =
+    useSavedJobs(user?.id, online, addNotification)
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams, setSearchParams] = useSearchParams()
 
-  // Auth state management
-  useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
-      setUser(state.user)
-      setLoading(state.isLoading)
-    })
-    return unsubscribe
-  }, [])
+  // Filters and page live in the query string so searches can be shared
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams])
+  const page = pageFromSearchParams(searchParams)
+
+  // Counts board loads, so a slow response for filters the user has since
+  // changed can't overwrite the newer one
+  const boardRequest = useRef(0)
 
   const loadJobs = useCallback(async () => {
+    const request = ++boardRequest.current
+    setJobsLoading(true)
+    const fetchedAt = new Date().toISOString()
     try {
-      const jobsData = await blink.db.jobs.list({
-        orderBy: { createdAt: 'desc' },
-        limit: 100
-      })
-      
-      const formattedJobs = jobsData.map((job: any) => ({
-        ...job,
-        tags: job.tags ? JSON.parse(job.tags) : [],
-        salaryMin: job.salary_min,
-        salaryMax: job.salary_max,
-        salaryCurrency: job.salary_currency || 'USD',
-        employmentType: job.employment_type,
-        experienceLevel: job.experience_level,
-        applicationType: job.application_type,
-        applicationEmail: job.application_email,
-        applicationLink: job.application_link,
-        userId: job.user_id,
-        createdAt: job.created_at,
-        updatedAt: job.updated_at
-      }))
-      
-      setJobs(formattedJobs)
+      const [jobsData, jobsCount] = await Promise.all([
+        jobsRepository.list(filters, page),
+        jobsRepository.count(filters)
+      ])
+      if (request !== boardRequest.current) return
+
+      setJobs(jobsData)
+      setTotalJobs(jobsCount)
+      setJobsFetchedAt(fetchedAt)
+      keepOfflineCopy('jobs', { jobs: jobsData, total: jobsCount })
     } catch (error) {
+      if (request !== boardRequest.current) return
       console.error('Error loading jobs:', error)
+      // Offline, the board shows the jobs from the last visit instead
+      const cached = isOffline() ? await readOfflineCopy<{ jobs: Job[]; total: number }>('jobs') : undefined
+      if (cached) {
+        setJobs(cached.jobs)
+        setTotalJobs(cached.total)
+      } else {
+        toast({
+          title: t('common.error'),
+          description: t('toast.loadJobsFailed'),
+          variant: "destructive"
+        })
+      }
+    } finally {
+      if (request === boardRequest.current) setJobsLoading(false)
+    }
+  }, [filters, page, toast, t])
+
+  // Text search ranks the jobs that could match the query client-side. The
+  // sort doesn't change which jobs those are, so it doesn't refetch them.
+  const searching = isTextSearch(filters)
+  const salarySort = isSalarySort(filters)
+  const { sort, ...poolFilters } = filters
+  const searchPoolKey = JSON.stringify(poolFilters)
+
+  const loadSearchPool = useCallback(async () => {
+    const request = ++boardRequest.current
+    setJobsLoading(true)
+    const fetchedAt = new Date().toISOString()
+    try {
+      const pool = await jobsRepository.listSearchPool({ ...EMPTY_JOB_FILTERS, ...JSON.parse(searchPoolKey) })
+      if (request !== boardRequest.current) return
+      setSearchPool(pool)
+      setJobsFetchedAt(fetchedAt)
+      keepOfflineCopy('searchPool', pool)
+    } catch (error) {
+      if (request !== boardRequest.current) return
+      console.error('Error loading jobs:', error)
+      const cached = isOffline() ? await readOfflineCopy<Job[]>('searchPool') : undefined
+      if (cached) {
+        setSearchPool(cached)
+      } else {
+        toast({
+          title: t('common.error'),
+          description: t('toast.loadJobsFailed'),
+          variant: "destructive"
+        })
+      }
+    } finally {
+      if (request === boardRequest.current) setJobsLoading(false)
+    }
+  }, [searchPoolKey, toast, t])
+
+  const searchIndex = useMemo(() => new JobSearchIndex(searchPool), [searchPool])
+
+  const searchResults = useMemo(
+    () => (searching ? searchIndex.search(filters.searchQuery) : []),
+    [searching, searchIndex, filters.searchQuery]
+  )
+
+  const currency = viewerCurrency(filters)
+  const rankedJobs = useMemo(() => {
+    const pool = searchResults.map(result => result.job)
+    return salarySort ? sortBySalary(pool, currency) : pool
+  }, [searchResults, salarySort, currency])
+
+  const refreshJobs = searching ? loadSearchPool : loadJobs
+
+  // Edits and removals by others show up in place; saved jobs keep their
+  // entry but pick up the edit
+  const applyJobChanges = useCallback((updated: Job[], removedIds: string[]) => {
+    const merge = (list: Job[]) => list.map(job => updated.find(item => item.id === job.id) ?? job)
+    const drop = (list: Job[]) => list.filter(job => !removedIds.includes(job.id))
+    if (searching) {
+      setSearchPool(prev => drop(merge(prev)))
+    } else {
+      setJobs(prev => drop(merge(prev)))
+      setTotalJobs(prev => Math.max(0, prev - removedIds.length))
+    }
+    setSavedJobsData(merge)
+  }, [searching])
+
+  const feed = useJobFeed(filters, jobsFetchedAt, searching ? searchPool : jobs, applyJobChanges)
+
+  const loadMyPostings = useCallback(async () => {
+    if (!user) return
+    setMyPostingsLoading(true)
+    try {
+      await jobsRepository.archiveExpired(user.id)
+      const postings = await jobsRepository.listForUser(user.id)
+      setMyPostings(postings)
+      setPostingApplications(await applicationsRepository.listForJobs(postings.map(job => job.id)))
+    } catch (error) {
+      console.error('Error loading postings:', error)
       toast({
-        title: "Error",
-        description: "Failed to load jobs",
+        title: t('common.error'),
+        description: t('toast.loadPostingsFailed'),
         variant: "destructive"
       })
+    } finally {
+      setMyPostingsLoading(false)
     }
-  }, [toast])
+  }, [user, toast, t])
 
-  const loadSavedJobs = useCallback(async () => {
+  const loadMyApplications = useCallback(async () => {
+    if (!user) return
     try {
-      const savedJobsData = await blink.db.savedJobs.list({
-        where: { userId: user.id },
-        orderBy: { createdAt: 'desc' }
-      })
-      
-      const formattedSavedJobs = savedJobsData.map((savedJob: any) => ({
-        id: savedJob.id,
-        jobId: savedJob.job_id,
-        userId: savedJob.user_id,
-        createdAt: savedJob.created_at
-      }))
-      
-      setSavedJobs(formattedSavedJobs)
+      setMyApplications(await applicationsRepository.listForCandidate(user.id))
     } catch (error) {
-      console.error('Error loading saved jobs:', error)
+      console.error('Error loading applications:', error)
     }
   }, [user])
 
-  // Load jobs and saved jobs when user is authenticated
+  const loadTrackedApplications = useCallback(async () => {
+    if (!user) return
+    try {
+      setTrackedApplications(await trackedApplicationsRepository.listForUser(user.id))
+    } catch (error) {
+      console.error('Error loading tracked applications:', error)
+    }
+  }, [user])
+
+  const loadMyReports = useCallback(async () => {
+    if (!user) return
+    try {
+      setMyReports(await reportsRepository.listForUser(user.id))
+    } catch (error) {
+      console.error('Error loading reports:', error)
+    }
+  }, [user])
+
+  // Saved jobs can live on any page, so their job data is fetched by id
+  // rather than looked up in the currently loaded page.
+  const loadSavedJobsData = useCallback(async (jobIds: string[]) => {
+    try {
+      const savedJobsJobs = await jobsRepository.listByIds(jobIds)
+      setSavedJobsData(savedJobsJobs)
+      keepOfflineCopy('savedJobsData', savedJobsJobs)
+    } catch (error) {
+      console.error('Error loading saved jobs data:', error)
+      // Jobs saved while offline may only be in the board's copy
+      const cached = await Promise.all(
+        ['savedJobsData', 'jobs', 'searchPool'].map(key => readOfflineCopy<Job[] | { jobs: Job[] }>(key))
+      )
+      const known = new Map(
+        cached.flatMap(entry => (Array.isArray(entry) ? entry : entry?.jobs ?? [])).map(job => [job.id, job])
+      )
+      setSavedJobsData(jobIds.flatMap(id => known.get(id) ?? []))
+    }
+  }, [])
+
+  // Load jobs once auth has settled, and when the filters/page change.
+  // The board is public, so this doesn't wait for a signed-in user.
+  useEffect(() => {
+    if (!loading && !searching) {
+      loadJobs()
+    }
+  }, [loading, searching, loadJobs])
+
+  useEffect(() => {
+    if (!loading && searching) {
+      loadSearchPool()
+    }
+  }, [loading, searching, loadSearchPool])
+
   useEffect(() => {
     if (user) {
+      loadMyApplications()
+      loadTrackedApplications()
+      loadMyReports()
+    }
+  }, [user, loadMyApplications, loadTrackedApplications, loadMyReports])
+
+  useEffect(() => {
+    loadSavedJobsData(savedJobs.map(save => save.jobId))
+  }, [savedJobs, loadSavedJobsData])
+
+  // Approved postings go straight onto the board
+  const moderation = useModerationQueue(canReviewJobs, refreshJobs)
+  const { refreshQueue } = moderation
+  const showingModeration = location.pathname === '/moderation'
+  useEffect(() => {
+    if (showingModeration) refreshQueue()
+  }, [showingModeration, refreshQueue])
+
+  const showingMyPostings = location.pathname.startsWith('/my-postings')
+  useEffect(() => {
+    if (user && canPostJobs && showingMyPostings) {
+      loadMyPostings()
+    }
+  }, [user, canPostJobs, showingMyPostings, loadMyPostings])
+
+  const handleFiltersChange = useCallback((nextFilters: JobFilters) => {
+    setSearchParams(filtersToSearchParams(nextFilters))
+  }, [setSearchParams])
+
+  const handlePageChange = (nextPage: number) => {
+    setSearchParams(filtersToSearchParams(filters, nextPage))
+  }
+
+  // New jobs go on top of the first page, where the newest are listed;
+  // further pages are reloaded from the first. A salary sort places them
+  // wherever they rank, so that page is reloaded too.
+  const handleShowNewJobs = () => {
+    if (searching) {
+      setSearchPool(prev => [...feed.newJobs, ...prev])
+    } else if (page === 1 && salarySort) {
       loadJobs()
-      loadSavedJobs()
+    } else if (page === 1) {
+      setJobs(prev => [...feed.newJobs, ...prev])
+      setTotalJobs(prev => prev + feed.newJobs.length)
+    } else {
+      handlePageChange(1)
     }
-  }, [user, loadJobs, loadSavedJobs])
+    feed.dismissNewJobs()
+  }
 
-  const handleJobPosted = () => {
-    loadJobs()
-    setShowPostJob(false)
+  // Open a modal route on top of the board, keeping the current filters
+  const openRoute = useCallback((pathname: string) => {
+    navigate({ pathname, search: location.search }, { state: { fromBoard: true } })
+  }, [navigate, location.search])
+
+  // Closing steps back through history when the modal was opened in-app,
+  // and falls back to the board for deep links
+  const closeRoute = useCallback(() => {
+    if (location.state?.fromBoard) {
+      navigate(-1)
+    } else {
+      navigate({ pathname: '/', search: location.search }, { replace: true })
+    }
+  }, [navigate, location])
+
+  const handleJobPosted = (job: Job) => {
+    setMyPostings(prev => [job, ...prev])
+    refreshJobs()
+    closeRoute()
     toast({
-      title: "Success",
-      description: "Job posted successfully!"
+      title: t('common.success'),
+      description: job.status === 'draft'
+        ? t('toast.draftSaved')
+        : job.status === 'pending' ? t('toast.jobSubmitted') : t('toast.jobPosted')
     })
   }
 
-  const handleJobClick = (job: Job) => {
-    setSelectedJob(job)
-    setShowJobDetails(true)
+  const replacePosting = (job: Job) => {
+    setMyPostings(prev => prev.map(posting => (posting.id === job.id ? job : posting)))
+  }
+
+  const handleJobUpdated = (job: Job) => {
+    replacePosting(job)
+    refreshJobs()
+    closeRoute()
+    toast({
+      title: t('common.success'),
+      description: job.status === 'pending'
+        ? t('toast.jobSubmitted')
+        : job.status === 'active' ? t('toast.jobUpdated') : t('toast.changesSaved')
+    })
+  }
+
+  const updatePostingStatus = async (job: Job, update: () => Promise<Job>, successTitle: string) => {
+    try {
+      replacePosting(await update())
+      refreshJobs()
+      toast({
+        title: successTitle,
+        description: t('toast.postingUpdated', { title: job.title })
+      })
+    } catch (error) {
+      console.error('Error updating job status:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.updatePostingFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Keeps the current expiry if it's still ahead, otherwise starts a new listing period
+  const handleActivateJob = (job: Job) =>
+    updatePostingStatus(
+      job,
+      () => jobsRepository.renew(
+        job.id,
+        job.expiresAt && !isPastExpiry(job.expiresAt) ? new Date(job.expiresAt) : defaultExpiry()
+      ),
+      needsReview(job) ? t('toast.submittedForReview') : t('toast.postingReopened')
+    )
+
+  const handleRenewJob = (job: Job) =>
+    updatePostingStatus(job, () => jobsRepository.renew(job.id), t('toast.postingRenewed'))
+
+  const handleChangeJobStatus = (job: Job, status: 'paused' | 'filled') =>
+    updatePostingStatus(
+      job,
+      () => jobsRepository.setStatus(job.id, status),
+      status === 'paused' ? t('toast.postingPaused') : t('toast.postingFilled')
+    )
+
+  const handleDeleteJob = async (job: Job) => {
+    try {
+      await jobsRepository.remove(job.id)
+      setMyPostings(prev => prev.filter(posting => posting.id !== job.id))
+      forgetJob(job.id)
+      refreshJobs()
+      toast({
+        title: t('toast.postingDeleted'),
+        description: t('toast.postingDeletedDescription')
+      })
+    } catch (error) {
+      console.error('Error deleting job:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.deletePostingFailed'),
+        variant: "destructive"
+      })
+    }
   }
 
-  const handleSaveJob = async (jobId: string) => {
+  // Every Apply click lands in the candidate's tracker. Failing to record it
+  // shouldn't get in the way of applying, so errors are only logged.
+  const trackApplication = async (job: Job) => {
     if (!user) return
-    
     try {
-      const existingSave = savedJobs.find(save => save.jobId === jobId)
-      
-      if (existingSave) {
-        await blink.db.savedJobs.delete(existingSave.id)
-        setSavedJobs(prev => prev.filter(save => save.id !== existingSave.id))
-        toast({
-          title: "Job unsaved",
-          description: "Job removed from saved jobs"
-        })
-      } else {
-        const newSave = await blink.db.savedJobs.create({
-          id: `save_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          jobId,
-          userId: user.id
-        })
-        
-        const formattedSave = {
-          id: newSave.id,
-          jobId: newSave.job_id,
-          userId: newSave.user_id,
-          createdAt: newSave.created_at
-        }
-        
-        setSavedJobs(prev => [...prev, formattedSave])
-        toast({
-          title: "Job saved",
-          description: "Job added to saved jobs"
-        })
+      const tracked = await trackedApplicationsRepository.record(user.id, job)
+      setTrackedApplications(prev =>
+        prev.some(item => item.id === tracked.id) ? prev : [tracked, ...prev]
+      )
+    } catch (error) {
+      console.error('Error tracking application:', error)
+    }
+  }
+
+  const replaceTrackedApplication = (tracked: TrackedApplication) => {
+    setTrackedApplications(prev => prev.map(item => (item.id === tracked.id ? tracked : item)))
+  }
+
+  const handleChangeTrackedStatus = async (tracked: TrackedApplication, status: TrackedStatus) => {
+    try {
+      replaceTrackedApplication(await trackedApplicationsRepository.setStatus(tracked, status))
+    } catch (error) {
+      console.error('Error updating application status:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.updateStatusFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleSaveTrackedNotes = async (tracked: TrackedApplication, notes: string) => {
+    try {
+      replaceTrackedApplication(await trackedApplicationsRepository.updateNotes(tracked.id, notes))
+      toast({
+        title: t('toast.notesSaved'),
+        description: t('toast.notesSavedDescription', { title: tracked.jobTitle })
+      })
+    } catch (error) {
+      console.error('Error saving notes:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.saveNotesFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleRemoveTrackedApplication = async (tracked: TrackedApplication) => {
+    try {
+      await trackedApplicationsRepository.remove(tracked.id)
+      setTrackedApplications(prev => prev.filter(item => item.id !== tracked.id))
+    } catch (error) {
+      console.error('Error removing tracked application:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.removeApplicationFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Resolves false when the report couldn't be saved, so the form stays open
+  const handleReportJob = async (job: Job, category: ReportCategory, details: string) => {
+    if (!user) return false
+    try {
+      const report = await reportsRepository.create(user.id, job.id, category, details)
+      setMyReports(prev => [report, ...prev.filter(item => item.id !== report.id)])
+      toast({
+        title: t('toast.reportSent'),
+        description: t('toast.reportSentDescription')
+      })
+    } catch (error) {
+      console.error('Error reporting job:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.reportFailed'),
+        variant: "destructive"
+      })
+      return false
+    }
+
+    // The report is in either way; hiding the job is a follow-up
+    try {
+      const hidden = await jobsRepository.hideIfReported(job.id)
+      if (hidden) {
+        await notificationsRepository.create(hidden.userId, hiddenNotification(hidden))
+        refreshJobs()
       }
     } catch (error) {
-      console.error('Error saving job:', error)
+      console.error('Error hiding reported job:', error)
+    }
+    return true
+  }
+
+  const handleApplied = (job: Job, application: Application) => {
+    setMyApplications(prev => [application, ...prev])
+    trackApplication(job)
+    closeRoute()
+    toast({
+      title: t('toast.applicationSent'),
+      description: t('toast.applicationSentDescription')
+    })
+  }
+
+  // Moves optimistically so the card stays where it was dropped
+  const handleMoveApplication = async (application: Application, stage: ApplicationStage) => {
+    const replaceApplication = (next: Application) =>
+      setPostingApplications(prev => prev.map(item => (item.id === next.id ? next : item)))
+
+    replaceApplication({ ...application, stage })
+    try {
+      replaceApplication(await applicationsRepository.moveToStage(application, stage))
+    } catch (error) {
+      console.error('Error moving application:', error)
+      replaceApplication(application)
       toast({
-        title: "Error",
-        description: "Failed to save job",
+        title: t('common.error'),
+        description: t('toast.moveApplicationFailed'),
         variant: "destructive"
       })
     }
   }
 
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    markSeen(search)
+    navigate(savedSearchPath(search))
+  }
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read) markRead([notification.id])
+    if (notification.link) navigate(notification.link)
+  }
+
+  const handleJobClick = (job: Job) => {
+    openRoute(`/jobs/${job.id}`)
+  }
+
+  const handleToggleCompare = (jobId: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(jobId)) return prev.filter(id => id !== jobId)
+      return prev.length < MAX_COMPARED_JOBS ? [...prev, jobId] : prev
+    })
+  }
+
+  const handleCompare = () => {
+    openRoute(comparePath(compareIds))
+  }
+
+  // An admin changing their own roles sees the effect straight away
+  const handleUserUpdated = (profile: UserProfile) => {
+    if (profile.id === user?.id) updateUser(profile)
+  }
+
+  // Sends the visitor to the sign-in page and back to this URL
+  const handleSignIn = (action?: PendingAction) => {
+    if (action) rememberPendingAction(action)
+    blink.auth.login(window.location.href)
+  }
+
+  const handlePostJob = useCallback(() => {
+    if (user) {
+      openRoute('/post')
+    } else {
+      setSignInAction({ kind: 'postJob' })
+    }
+  }, [user, openRoute])
+
+  const handleApplyOnsite = useCallback((jobId: string) => {
+    if (user) {
+      openRoute(`/jobs/${jobId}/apply`)
+    } else {
+      setSignInAction({ kind: 'apply', jobId })
+    }
+  }, [user, openRoute])
+
+  const handleSaveSearch = useCallback((name: string) => {
+    if (user) {
+      saveSearch(name, filters)
+    } else {
+      setSignInAction({ kind: 'saveSearch', name })
+    }
+  }, [user, saveSearch, filters])
+
+  const handleSaveJob = useCallback((jobId: string) => {
+    if (user) {
+      toggleSave(jobId)
+    } else {
+      setSignInAction({ kind: 'saveJob', jobId })
+    }
+  }, [user, toggleSave])
+
+  // Picks up where a visitor left off before signing in. It waits for their
+  // saved jobs, so saving a job they'd already saved doesn't unsave it.
+  useEffect(() => {
+    if (!user || !pendingAction || !savedJobsLoaded) return
+    clearPendingAction()
+    setPendingAction(null)
+    switch (pendingAction.kind) {
+      case 'saveJob':
+        if (!savedJobs.some(save => save.jobId === pendingAction.jobId)) {
+          handleSaveJob(pendingAction.jobId)
+        }
+        break
+      case 'apply':
+        handleApplyOnsite(pendingAction.jobId)
+        break
+      case 'postJob':
+        if (canPostJobs) {
+          handlePostJob()
+        } else {
+          toast({
+            title: t('login.cannotPostTitle'),
+            description: t('login.cannotPost')
+          })
+        }
+        break
+      case 'saveSearch':
+        handleSaveSearch(pendingAction.name)
+        break
+    }
+  }, [
+    user,
+    pendingAction,
+    savedJobsLoaded,
+    savedJobs,
+    canPostJobs,
+    handleSaveJob,
+    handleApplyOnsite,
+    handlePostJob,
+    handleSaveSearch,
+    toast,
+    t
+  ])
+
+  const visibleJobs = searching
+    ? rankedJobs.slice((page - 1) * JOBS_PAGE_SIZE, page * JOBS_PAGE_SIZE)
+    : jobs
+  const knownJobs = [...visibleJobs, ...savedJobsData, ...myPostings]
+  const { companies, rememberCompany } = useCompanies(knownJobs)
+
+  // An edited profile may have been renamed, so the loaded jobs pick up the new name
+  const handleCompanyUpdated = (company: Company) => {
+    rememberCompany(company)
+    const rename = (list: Job[]) =>
+      list.map(job => (job.companyId === company.id ? { ...job, company: company.name } : job))
+    setSavedJobsData(rename)
+    setMyPostings(rename)
+    refreshJobs()
+  }
+
+  const searchMatches = searching
+    ? Object.fromEntries(searchResults.map(result => [result.job.id, result.matches]))
+    : undefined
+
+  const applicationCounts = postingApplications.reduce<Record<string, number>>((counts, application) => {
+    counts[application.jobId] = (counts[application.jobId] ?? 0) + 1
+    return counts
+  }, {})
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading...</p>
-        </div>
-      </div>
-    )
-  }
-
-  if (!user) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center max-w-md mx-auto p-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-4">Welcome to NicheJobs</h1>
-          <p className="text-gray-600 mb-8">Discover niche opportunities and connect with specialized roles</p>
-          <button
-            onClick={() => blink.auth.login()}
-            className="bg-primary text-white px-8 py-3 rounded-lg font-medium hover:bg-primary/90 transition-colors"
-          >
-            Sign In to Continue
-          </button>
+          <p className="text-gray-600">{t('common.loading')}</p>
         </div>
       </div>
     )
@@ -208,43 +726,250 @@ function App() {
     <div className="min-h-screen bg-gray-50">
       <Header 
         user={user}
-        onPostJob={() => setShowPostJob(true)}
-        onShowSavedJobs={() => setShowSavedJobs(true)}
+        onSignIn={() => handleSignIn()}
+        onPostJob={handlePostJob}
+        onShowSavedJobs={() => openRoute('/saved')}
+        onShowMyApplications={() => openRoute('/applications')}
+        onShowMyPostings={() => openRoute('/my-postings')}
+        onShowAdmin={() => openRoute('/admin')}
+        onShowModeration={() => openRoute('/moderation')}
+        pendingReviewCount={moderation.queue.length + moderation.reportedJobs.length}
         savedJobsCount={savedJobs.length}
+        applicationsCount={trackedApplications.length}
+        savedSearches={savedSearches}
+        newSearchMatchCounts={Object.fromEntries(
+          Object.entries(newMatches).map(([searchId, matches]) => [searchId, matches.length])
+        )}
+        onOpenSavedSearch={handleOpenSavedSearch}
+        onDeleteSavedSearch={removeSearch}
+        notifications={notifications}
+        onOpenNotification={handleOpenNotification}
+        onMarkNotificationsRead={() =>
+          markRead(notifications.filter(notification => !notification.read).map(notification => notification.id))
+        }
       />
       
       <main className="pt-20">
+        {!online && <OfflineBanner />}
         <JobBoard 
-          jobs={jobs}
+          jobs={visibleJobs}
+          totalJobs={searching ? rankedJobs.length : totalJobs}
+          searchCapped={searching && searchPool.length >= SEARCH_POOL_SIZE}
+          searchMatches={searchMatches}
+          loading={jobsLoading}
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          page={page}
+          onPageChange={handlePageChange}
           savedJobs={savedJobs}
+          companies={companies}
           onJobClick={handleJobClick}
           onSaveJob={handleSaveJob}
+          onSaveSearch={handleSaveSearch}
+          newJobsCount={feed.newJobs.length}
+          onShowNewJobs={handleShowNewJobs}
+          compareIds={compareIds}
+          onToggleCompare={handleToggleCompare}
         />
+        {compareIds.length > 0 && (
+          <CompareBar
+            count={compareIds.length}
+            onCompare={handleCompare}
+            onClear={() => setCompareIds([])}
+          />
+        )}
       </main>
 
-      <PostJobModal
-        open={showPostJob}
-        onOpenChange={setShowPostJob}
-        onJobPosted={handleJobPosted}
-      />
-
-      <JobDetailsModal
-        job={selectedJob}
-        open={showJobDetails}
-        onOpenChange={setShowJobDetails}
-        isSaved={selectedJob ? savedJobs.some(save => save.jobId === selectedJob.id) : false}
-        onSaveJob={selectedJob ? () => handleSaveJob(selectedJob.id) : undefined}
-      />
+      <Routes>
+        <Route path="/" element={null} />
+        <Route
+          path="/jobs/:jobId"
+          element={
+            <JobDetailsRoute
+              userId={user?.id}
+              knownJobs={knownJobs}
+              companies={companies}
+              savedJobs={savedJobs}
+              myApplications={myApplications}
+              myReports={myReports}
+              onSaveJob={handleSaveJob}
+              onApplyOnsite={(job) => handleApplyOnsite(job.id)}
+              onApplyExternal={trackApplication}
+              onViewCompany={(companyId) => openRoute(`/companies/${companyId}`)}
+              onReportJob={handleReportJob}
+              onClose={closeRoute}
+            />
+          }
+        />
+        <Route
+          path="/companies/:companyId"
+          element={
+            <CompanyRoute
+              user={user}
+              knownCompanies={companies}
+              onJobClick={handleJobClick}
+              onCompanyUpdated={handleCompanyUpdated}
+              onClose={closeRoute}
+            />
+          }
+        />
+        <Route
+          path="/compare/:jobIds"
+          element={
+            <CompareJobsRoute
+              knownJobs={knownJobs}
+              currency={currency}
+              onJobClick={handleJobClick}
+              onClose={closeRoute}
+            />
+          }
+        />
+        {/* Account-only screens fall through to the board for visitors */}
+        {user && (
+          <>
+            <Route
+              path="/saved"
+              element={
+                <SavedJobsModal
+                  open
+                  onOpenChange={(open) => !open && closeRoute()}
+                  savedJobs={savedJobs}
+                  jobs={savedJobsData}
+                  currency={currency}
+                  onJobClick={handleJobClick}
+                  onUnsaveJob={handleSaveJob}
+                  onUpdateDetails={updateDetails}
+                  compareIds={compareIds}
+                  onToggleCompare={handleToggleCompare}
+                  onCompare={handleCompare}
+                />
+              }
+            />
+            <Route
+              path="/applications"
+              element={
+                <MyApplicationsModal
+                  open
+                  onOpenChange={(open) => !open && closeRoute()}
+                  applications={trackedApplications}
+                  onViewJob={(jobId) => openRoute(`/jobs/${jobId}`)}
+                  onChangeStatus={handleChangeTrackedStatus}
+                  onSaveNotes={handleSaveTrackedNotes}
+                  onRemove={handleRemoveTrackedApplication}
+                />
+              }
+            />
+            <Route
+              path="/jobs/:jobId/apply"
+              element={
+                <ApplyRoute
+                  user={user}
+                  knownJobs={[...visibleJobs, ...savedJobsData]}
+                  myApplications={myApplications}
+                  onApplied={handleApplied}
+                  onClose={closeRoute}
+                />
+              }
+            />
+          </>
+        )}
+        {/* Without the role these fall through to the board */}
+        {user && canPostJobs && (
+          <>
+            <Route
+              path="/post"
+              element={
+                <PostJobModal
+                  open
+                  onOpenChange={(open) => !open && closeRoute()}
+                  onJobPosted={handleJobPosted}
+                />
+              }
+            />
+            <Route
+              path="/jobs/:jobId/edit"
+              element={
+                <EditJobRoute
+                  userId={user.id}
+                  knownJobs={myPostings}
+                  onJobUpdated={handleJobUpdated}
+                  onClose={closeRoute}
+                />
+              }
+            />
+            <Route
+              path="/my-postings"
+              element={
+                <MyPostingsModal
+                  open
+                  onOpenChange={(open) => !open && closeRoute()}
+                  postings={myPostings}
+                  applicationCounts={applicationCounts}
+                  loading={myPostingsLoading}
+                  onJobClick={handleJobClick}
+                  onEditJob={(job) => openRoute(`/jobs/${job.id}/edit`)}
+                  onActivateJob={handleActivateJob}
+                  onRenewJob={handleRenewJob}
+                  onChangeStatus={handleChangeJobStatus}
+                  onDeleteJob={handleDeleteJob}
+                  onViewApplications={(job) => openRoute(`/my-postings/${job.id}/applications`)}
+                />
+              }
+            />
+            <Route
+              path="/my-postings/:jobId/applications"
+              element={
+                <ApplicationsRoute
+                  userId={user.id}
+                  knownJobs={myPostings}
+                  applications={postingApplications}
+                  onMoveApplication={handleMoveApplication}
+                  onClose={closeRoute}
+                />
+              }
+            />
+          </>
+        )}
+        {canReviewJobs && (
+          <Route
+            path="/moderation"
+            element={
+              <ModerationQueueModal
+                open
+                onOpenChange={(open) => !open && closeRoute()}
+                queue={moderation.queue}
+                reports={moderation.reports}
+                reportedJobs={moderation.reportedJobs}
+                loading={moderation.loading}
+                onViewJob={handleJobClick}
+                onApprove={moderation.approve}
+                onReject={moderation.reject}
+                onDismissReports={moderation.dismissReports}
+              />
+            }
+          />
+        )}
+        {user && canManageRoles && (
+          <Route
+            path="/admin"
+            element={
+              <AdminModal
+                open
+                onOpenChange={(open) => !open && closeRoute()}
+                currentUserId={user.id}
+                onUserUpdated={handleUserUpdated}
+              />
+            }
+          />
+        )}
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
 
-      <SavedJobsModal
-        open={showSavedJobs}
-        onOpenChange={setShowSavedJobs}
-        savedJobs={savedJobs}
-        jobs={jobs}
-        onJobClick={handleJobClick}
-        onUnsaveJob={handleSaveJob}
+      <SignInPrompt
+        action={signInAction}
+        onOpenChange={(open) => !open && setSignInAction(null)}
+        onSignIn={handleSignIn}
       />
-
       <Toaster />
     </div>
   )
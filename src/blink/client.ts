@@ -2,5 +2,6 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'niche-job-board-platform-vc6lw6ag',
-  authRequired: true
+  // Anyone can browse; saving, applying and posting ask for an account
+  authRequired: false
 })
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Input } from './ui/input'
+import { Checkbox } from './ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Search } from 'lucide-react'
+import { usersRepository } from '../data/usersRepository'
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '../lib/permissions'
+import { formatDate } from '../lib/i18n/format'
+import { useToast } from '../hooks/use-toast'
+import { useI18n } from '../hooks/use-i18n'
+import type { Role, UserProfile } from '../types/user'
+
+interface AdminModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentUserId: string
+  // Called after a user's roles change, so the app can pick up its own
+  onUserUpdated: (user: UserProfile) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// Lets admins grant and revoke roles
+export function AdminModal({ open, onOpenChange, currentUserId, onUserUpdated }: AdminModalProps) {
+  const [query, setQuery] = useState('')
+  const [users, setUsers] = useState<UserProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  // Users whose roles are being saved
+  const [saving, setSaving] = useState<string[]>([])
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    const timeout = setTimeout(() => {
+      usersRepository.search(query)
+        .then(result => {
+          if (!cancelled) setUsers(result)
+        })
+        .catch(error => {
+          console.error('Error loading users:', error)
+          toast({
+            title: t('common.error'),
+            description: t('admin.errors.load'),
+            variant: "destructive"
+          })
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, toast, t])
+
+  const toggleRole = async (user: UserProfile, role: Role, granted: boolean) => {
+    const roles = granted ? [...user.roles, role] : user.roles.filter(item => item !== role)
+    setSaving(prev => [...prev, user.id])
+    try {
+      const updated = await usersRepository.setRoles(user.id, roles)
+      setUsers(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+      onUserUpdated(updated)
+    } catch (error) {
+      console.error('Error updating roles:', error)
+      toast({
+        title: t('common.error'),
+        description: t('admin.errors.save'),
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(prev => prev.filter(id => id !== user.id))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('admin.title')}</DialogTitle>
+          <p className="text-sm text-gray-600">{t('admin.subtitle')}</p>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('admin.searchPlaceholder')}
+            className="ps-9"
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('admin.user')}</TableHead>
+              {ROLES.map(role => (
+                <TableHead key={role} className="text-center" title={t(ROLE_DESCRIPTIONS[role])}>
+                  {t(ROLE_LABELS[role])}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!loading && users.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={ROLES.length + 1} className="text-center text-gray-600">
+                  {t('admin.noUsers')}
+                </TableCell>
+              </TableRow>
+            )}
+            {users.map(user => (
+              <TableRow key={user.id}>
+                <TableCell>
+                  <p className="font-medium text-gray-900">{user.displayName ?? user.email}</p>
+                  {user.displayName && <p className="text-sm text-gray-600">{user.email}</p>}
+                  <p className="text-xs text-gray-500">
+                    {t('admin.joined', { date: formatDate(user.createdAt) })}
+                  </p>
+                </TableCell>
+                {ROLES.map(role => (
+                  <TableCell key={role} className="text-center">
+                    <Checkbox
+                      checked={user.roles.includes(role)}
+                      // Admins can't lock themselves out
+                      disabled={saving.includes(user.id) || (user.id === currentUserId && role === 'admin')}
+                      onCheckedChange={(checked) => toggleRole(user, role, checked === true)}
+                      aria-label={t('admin.toggleRole', { role: t(ROLE_LABELS[role]), user: user.email })}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  )
+}
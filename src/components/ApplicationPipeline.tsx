@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent
+} from '@dnd-kit/core'
+import { Badge } from './ui/badge'
+import { FileText } from 'lucide-react'
+import { APPLICATION_STAGES, APPLICATION_STAGE_CLASSES, APPLICATION_STAGE_LABELS } from '../lib/applicationStages'
+import { formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import type { Application, ApplicationStage } from '../types/application'
+
+interface ApplicationPipelineProps {
+  applications: Application[]
+  selectedId?: string
+  onSelect: (application: Application) => void
+  onMove: (application: Application, stage: ApplicationStage) => void
+}
+
+function ApplicantCard({ application, selected, dragging }: { application: Application; selected?: boolean; dragging?: boolean }) {
+  return (
+    <div
+      className={`rounded-md border bg-white p-3 text-start shadow-sm transition-colors ${
+        selected ? 'border-primary ring-1 ring-primary' : 'border-gray-200 hover:border-primary/40'
+      } ${dragging ? 'shadow-lg' : ''}`}
+    >
+      <p className="text-sm font-medium text-gray-900 truncate">{application.name}</p>
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+        <span>{formatDate(application.createdAt)}</span>
+        {application.resumePath && <FileText className="h-3 w-3" />}
+      </div>
+    </div>
+  )
+}
+
+function DraggableApplicant({ application, selected, onSelect }: { application: Application; selected: boolean; onSelect: () => void }) {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: application.id,
+    data: { application }
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      className={`cursor-grab active:cursor-grabbing ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <ApplicantCard application={application} selected={selected} />
+    </div>
+  )
+}
+
+function StageColumn({ stage, children, count }: { stage: ApplicationStage; children: React.ReactNode; count: number }) {
+  const { setNodeRef, isOver } = useDroppable({ id: stage })
+  const { t } = useI18n()
+
+  return (
+    <div className="flex flex-col min-w-[180px] flex-1">
+      <div className="flex items-center justify-between mb-2 px-1">
+        <Badge variant="outline" className={`text-xs ${APPLICATION_STAGE_CLASSES[stage]}`}>
+          {t(APPLICATION_STAGE_LABELS[stage])}
+        </Badge>
+        <span className="text-xs text-gray-500">{count}</span>
+      </div>
+      <div
+        ref={setNodeRef}
+        className={`flex-1 min-h-[160px] space-y-2 rounded-lg p-2 transition-colors ${
+          isOver ? 'bg-primary/10' : 'bg-gray-50'
+        }`}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
+
+// Kanban board of a job's applicants; drag a card to another column to move it
+export function ApplicationPipeline({ applications, selectedId, onSelect, onMove }: ApplicationPipelineProps) {
+  const [activeApplication, setActiveApplication] = useState<Application | null>(null)
+
+  // A small drag threshold keeps plain clicks selecting the card
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setActiveApplication(active.data.current?.application ?? null)
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setActiveApplication(null)
+    const application: Application | undefined = active.data.current?.application
+    const stage = over?.id as ApplicationStage | undefined
+    if (application && stage && stage !== application.stage) {
+      onMove(application, stage)
+    }
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveApplication(null)}
+    >
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {APPLICATION_STAGES.map(stage => {
+          const inStage = applications.filter(application => application.stage === stage)
+          return (
+            <StageColumn key={stage} stage={stage} count={inStage.length}>
+              {inStage.map(application => (
+                <DraggableApplicant
+                  key={application.id}
+                  application={application}
+                  selected={application.id === selectedId}
+                  onSelect={() => onSelect(application)}
+                />
+              ))}
+            </StageColumn>
+          )
+        })}
+      </div>
+
+      <DragOverlay>
+        {activeApplication && <ApplicantCard application={activeApplication} dragging />}
+      </DragOverlay>
+    </DndContext>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Separator } from './ui/separator'
+import { Download, Inbox, Mail } from 'lucide-react'
+import { ApplicationPipeline } from './ApplicationPipeline'
+import { applicationsRepository } from '../data/applicationsRepository'
+import { APPLICATION_STAGE_CLASSES, APPLICATION_STAGE_LABELS } from '../lib/applicationStages'
+import { formatDateTime } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import { useToast } from '../hooks/use-toast'
+import type { Application, ApplicationStage } from '../types/application'
+import type { Job } from '../types/job'
+
+interface ApplicationsModalProps {
+  job: Job
+  applications: Application[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onMoveApplication: (application: Application, stage: ApplicationStage) => void
+}
+
+export function ApplicationsModal({ job, applications, open, onOpenChange, onMoveApplication }: ApplicationsModalProps) {
+  const [selectedId, setSelectedId] = useState<string>()
+  const { t } = useI18n()
+  const { toast } = useToast()
+  // Applications can arrive after the modal opens, so fall back to the first one
+  const selected = applications.find(application => application.id === selectedId) ?? applications[0]
+
+  // Resumes are private, so each one is opened through a fresh link
+  const handleOpenResume = async (application: Application) => {
+    try {
+      window.open(await applicationsRepository.resumeLink(application.id), '_blank', 'noopener,noreferrer')
+    } catch (error) {
+      console.error('Error opening resume:', error)
+      toast({
+        title: t('common.error'),
+        description: t('applications.resumeFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">
+            {t('applications.title', { count: applications.length })}
+          </DialogTitle>
+          <p className="text-gray-600">{t('applications.jobAtCompany', { title: job.title, company: job.company })}</p>
+        </DialogHeader>
+
+        {applications.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="max-w-md mx-auto">
+              <div className="h-12 w-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <Inbox className="h-6 w-6 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">{t('applications.empty.title')}</h3>
+              <p className="text-gray-600">
+                {t('applications.empty.body')}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <ApplicationPipeline
+              applications={applications}
+              selectedId={selected?.id}
+              onSelect={(application) => setSelectedId(application.id)}
+              onMove={onMoveApplication}
+            />
+
+            {selected && (
+              <>
+                <Separator />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="md:col-span-2 space-y-3">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{selected.name}</h3>
+                        <a
+                          href={`mailto:${selected.email}`}
+                          className="flex items-center text-sm text-primary hover:underline"
+                        >
+                          <Mail className="h-4 w-4 me-1" />
+                          {selected.email}
+                        </a>
+                      </div>
+                      {selected.resumePath && (
+                        <Button variant="outline" size="sm" onClick={() => handleOpenResume(selected)}>
+                          <Download className="h-4 w-4 me-2" />
+                          {selected.resumeFileName ?? t('apply.resume')}
+                        </Button>
+                      )}
+                    </div>
+                    {selected.coverLetter ? (
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+                        {selected.coverLetter}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500">{t('applications.noCoverLetter')}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-3">{t('applications.stageHistory')}</h4>
+                    <ol className="space-y-2">
+                      {[...selected.stageHistory].reverse().map((change, index) => (
+                        <li key={`${change.stage}-${change.changedAt}-${index}`} className="flex items-center justify-between">
+                          <Badge variant="outline" className={`text-xs ${APPLICATION_STAGE_CLASSES[change.stage]}`}>
+                            {t(APPLICATION_STAGE_LABELS[change.stage])}
+                          </Badge>
+                          <span className="text-xs text-gray-500">
+                            {formatDateTime(change.changedAt)}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.close')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,35 @@
+import { ApplicationsModal } from './ApplicationsModal'
+import { useOwnedRouteJob } from '../hooks/use-route-job'
+import type { Application, ApplicationStage } from '../types/application'
+import type { Job } from '../types/job'
+
+interface ApplicationsRouteProps {
+  userId: string
+  knownJobs: Job[]
+  applications: Application[]
+  onMoveApplication: (application: Application, stage: ApplicationStage) => void
+  onClose: () => void
+}
+
+// Renders /my-postings/:jobId/applications for the job's poster
+export function ApplicationsRoute({
+  userId,
+  knownJobs,
+  applications,
+  onMoveApplication,
+  onClose
+}: ApplicationsRouteProps) {
+  const job = useOwnedRouteJob(knownJobs, userId, onClose)
+
+  if (!job) return null
+
+  return (
+    <ApplicationsModal
+      job={job}
+      applications={applications.filter(application => application.jobId === job.id)}
+      open
+      onOpenChange={(open) => !open && onClose()}
+      onMoveApplication={onMoveApplication}
+    />
+  )
+}
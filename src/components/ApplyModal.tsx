@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { FileText, X } from 'lucide-react'
+import { applicationsRepository, MAX_RESUME_BYTES, RESUME_ACCEPT } from '../data/applicationsRepository'
+import { useToast } from '../hooks/use-toast'
+import { useI18n } from '../hooks/use-i18n'
+import type { Application } from '../types/application'
+import type { Job } from '../types/job'
+
+interface ApplyModalProps {
+  job: Job
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  defaultName?: string
+  defaultEmail?: string
+  onApplied: (application: Application) => void
+}
+
+export function ApplyModal({
+  job,
+  open,
+  onOpenChange,
+  userId,
+  defaultName = '',
+  defaultEmail = '',
+  onApplied
+}: ApplyModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState(defaultName)
+  const [email, setEmail] = useState(defaultEmail)
+  const [coverLetter, setCoverLetter] = useState('')
+  const [resume, setResume] = useState<File | null>(null)
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  const handleResumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_RESUME_BYTES) {
+      toast({
+        title: t('common.error'),
+        description: t('apply.errors.resumeSize'),
+        variant: "destructive"
+      })
+      return
+    }
+    setResume(file)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim() || !email.trim()) {
+      toast({
+        title: t('common.error'),
+        description: t('apply.errors.contact'),
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (!resume) {
+      toast({
+        title: t('common.error'),
+        description: t('apply.errors.resume'),
+        variant: "destructive"
+      })
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const application = await applicationsRepository.create(
+        userId,
+        job.id,
+        { name: name.trim(), email: email.trim(), coverLetter: coverLetter.trim() },
+        resume
+      )
+      onApplied(application)
+    } catch (error) {
+      console.error('Error submitting application:', error)
+      toast({
+        title: t('common.error'),
+        description: t('apply.errors.submit'),
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('apply.title', { title: job.title })}</DialogTitle>
+          <p className="text-primary font-medium">{job.company}</p>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="applicantName">{t('apply.name')} *</Label>
+              <Input
+                id="applicantName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Jane Doe"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="applicantEmail">{t('apply.email')} *</Label>
+              <Input
+                id="applicantEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="jane@example.com"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="resume">{t('apply.resume')} *</Label>
+            {resume ? (
+              <div className="flex items-center justify-between rounded-md border border-gray-200 px-3 py-2">
+                <div className="flex items-center space-x-2 rtl:space-x-reverse text-sm text-gray-700">
+                  <FileText className="h-4 w-4" />
+                  <span className="truncate">{resume.name}</span>
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setResume(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Input id="resume" type="file" accept={RESUME_ACCEPT} onChange={handleResumeChange} />
+            )}
+            <p className="text-xs text-gray-500 mt-1">{t('apply.resumeHint')}</p>
+          </div>
+
+          <div>
+            <Label htmlFor="coverLetter">{t('apply.coverLetter')}</Label>
+            <Textarea
+              id="coverLetter"
+              value={coverLetter}
+              onChange={(e) => setCoverLetter(e.target.value)}
+              placeholder={t('apply.coverLetterPlaceholder')}
+              rows={6}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 rtl:space-x-reverse pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('apply.submitting') : t('apply.submit')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,42 @@
+import { useEffect } from 'react'
+import { ApplyModal } from './ApplyModal'
+import { useRouteJob } from '../hooks/use-route-job'
+import { isAcceptingApplications } from '../lib/jobStatus'
+import type { Application } from '../types/application'
+import type { Job } from '../types/job'
+
+interface ApplyRouteProps {
+  user: { id: string; email: string; displayName?: string }
+  knownJobs: Job[]
+  myApplications: Application[]
+  onApplied: (job: Job, application: Application) => void
+  onClose: () => void
+}
+
+// Renders /jobs/:jobId/apply for jobs that take applications on the board
+export function ApplyRoute({ user, knownJobs, myApplications, onApplied, onClose }: ApplyRouteProps) {
+  const job = useRouteJob(knownJobs, onClose)
+  const canApply = job !== null &&
+    job.applicationType === 'onsite' &&
+    isAcceptingApplications(job.status) &&
+    !myApplications.some(application => application.jobId === job.id)
+
+  useEffect(() => {
+    if (job && !canApply) onClose()
+  }, [job, canApply, onClose])
+
+  if (!job || !canApply) return null
+
+  return (
+    <ApplyModal
+      key={job.id}
+      job={job}
+      open
+      onOpenChange={(open) => !open && onClose()}
+      userId={user.id}
+      defaultName={user.displayName}
+      defaultEmail={user.email}
+      onApplied={(application) => onApplied(job, application)}
+    />
+  )
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from './ui/command'
+import { BadgeCheck, ChevronsUpDown, Plus } from 'lucide-react'
+import { CompanyLogo } from './CompanyLogo'
+import { companiesRepository } from '../data/companiesRepository'
+import { useI18n } from '../hooks/use-i18n'
+import type { Company } from '../types/company'
+
+interface CompanyComboboxProps {
+  id?: string
+  // The chosen company's name, and its profile id unless it's a new company
+  name: string
+  companyId?: string
+  onChange: (name: string, company?: Company) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 250
+
+// Picks one of the poster's company profiles, or names a new one
+export function CompanyCombobox({ id, name, companyId, onChange }: CompanyComboboxProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<Company[]>([])
+  const { t } = useI18n()
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      companiesRepository.searchOwn(query)
+        .then(result => {
+          if (!cancelled) setMatches(result)
+        })
+        .catch(error => console.error('Error searching companies:', error))
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [open, query])
+
+  const trimmed = query.trim()
+  const exactMatch = matches.some(company => company.name.toLowerCase() === trimmed.toLowerCase())
+
+  const select = (nextName: string, company?: Company) => {
+    onChange(nextName, company)
+    setOpen(false)
+    setQuery('')
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={name ? 'truncate' : 'truncate text-muted-foreground'}>
+            {name || t('postJob.companyPlaceholder')}
+            {name && !companyId && <span className="ms-2 text-xs text-gray-500">{t('company.new')}</span>}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ms-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder={t('company.search')} />
+          <CommandList>
+            <CommandEmpty>{t('company.noMatches')}</CommandEmpty>
+            {matches.map(company => (
+              <CommandItem key={company.id} value={company.id} onSelect={() => select(company.name, company)}>
+                <CompanyLogo company={company} name={company.name} className="h-6 w-6 me-2" />
+                <span className="truncate">{company.name}</span>
+                {company.verified && <BadgeCheck className="h-4 w-4 ms-1 text-primary" />}
+              </CommandItem>
+            ))}
+            {trimmed && !exactMatch && (
+              <CommandItem value={`new:${trimmed}`} onSelect={() => select(trimmed)}>
+                <Plus className="h-4 w-4 me-2" />
+                {t('company.addNew', { name: trimmed })}
+              </CommandItem>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
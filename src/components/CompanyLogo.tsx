@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import type { Company } from '../types/company'
+
+interface CompanyLogoProps {
+  // Postings without a profile only have a name
+  company?: Company
+  name: string
+  className?: string
+}
+
+// The company's logo, or its initials when there's no logo to show
+export function CompanyLogo({ company, name, className = 'h-10 w-10' }: CompanyLogoProps) {
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(word => word[0].toUpperCase())
+    .join('')
+
+  return (
+    <Avatar className={`${className} rounded-md`}>
+      {company?.logoUrl && <AvatarImage src={company.logoUrl} alt={name} className="object-contain" />}
+      <AvatarFallback className="rounded-md bg-primary/10 text-primary text-sm font-semibold">
+        {initials}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Separator } from './ui/separator'
+import { BadgeCheck, Briefcase, Clock, ExternalLink, MapPin, Pencil, Users } from 'lucide-react'
+import { CompanyLogo } from './CompanyLogo'
+import { CompanyProfileFields } from './CompanyProfileFields'
+import { draftFromCompany, type CompanyProfileDraft } from '../lib/companyDraft'
+import { formatJobLocation } from '../lib/location'
+import { safeHref } from '../lib/markdown'
+import { formatSalary } from '../lib/salary'
+import { translateValue } from '../lib/i18n'
+import { useI18n } from '../hooks/use-i18n'
+import type { Company, CompanyInput } from '../types/company'
+import type { Job } from '../types/job'
+
+interface CompanyModalProps {
+  company: Company
+  // The company's postings that are on the board
+  jobs: Job[]
+  jobsLoading: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onJobClick: (job: Job) => void
+  // Only passed to the profile's owner. Resolves false when saving failed,
+  // which keeps the form open.
+  onSave?: (input: CompanyInput, logo?: File) => Promise<boolean>
+  // Only passed to admins
+  onSetVerified?: (verified: boolean) => void
+}
+
+export function CompanyModal({
+  company,
+  jobs,
+  jobsLoading,
+  open,
+  onOpenChange,
+  onJobClick,
+  onSave,
+  onSetVerified
+}: CompanyModalProps) {
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [name, setName] = useState(company.name)
+  const [draft, setDraft] = useState<CompanyProfileDraft>(() => draftFromCompany(company))
+  const { t } = useI18n()
+  // Saved websites are only linked when they're http(s) addresses
+  const safeWebsite = company.website ? safeHref(company.website) : undefined
+  const websiteHref = safeWebsite?.startsWith('http') ? safeWebsite : undefined
+
+  const startEditing = () => {
+    setName(company.name)
+    setDraft(draftFromCompany(company))
+    setEditing(true)
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!onSave || !name.trim()) return
+    setSaving(true)
+    try {
+      const saved = await onSave(
+        {
+          name,
+          website: draft.website,
+          size: draft.size || undefined,
+          industry: draft.industry,
+          description: draft.description
+        },
+        draft.logo ?? undefined
+      )
+      if (saved) setEditing(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-start gap-4">
+            <CompanyLogo company={company} name={company.name} className="h-16 w-16" />
+            <div className="flex-1">
+              <DialogTitle className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                {company.name}
+                {company.verified && (
+                  <Badge variant="secondary" className="bg-primary/10 text-primary gap-1">
+                    <BadgeCheck className="h-4 w-4" />
+                    {t('company.verified')}
+                  </Badge>
+                )}
+              </DialogTitle>
+              <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                {company.industry && (
+                  <span className="flex items-center">
+                    <Briefcase className="h-4 w-4 me-1" />
+                    {company.industry}
+                  </span>
+                )}
+                {company.size && (
+                  <span className="flex items-center">
+                    <Users className="h-4 w-4 me-1" />
+                    {t('company.employees', { size: company.size })}
+                  </span>
+                )}
+                {websiteHref ? (
+                  <a
+                    href={websiteHref}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-primary hover:underline"
+                  >
+                    <ExternalLink className="h-4 w-4 me-1" />
+                    {company.website?.replace(/^https?:\/\//, '')}
+                  </a>
+                ) : company.website && (
+                  <span>{company.website}</span>
+                )}
+              </div>
+            </div>
+            {onSave && !editing && (
+              <Button variant="outline" size="sm" onClick={startEditing}>
+                <Pencil className="h-4 w-4 me-2" />
+                {t('company.edit')}
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+
+        {onSetVerified && (
+          <div className="flex items-center gap-2 rounded-md bg-gray-50 px-3 py-2">
+            <Switch id="companyVerified" checked={company.verified} onCheckedChange={onSetVerified} />
+            <Label htmlFor="companyVerified">{t('company.markVerified')}</Label>
+          </div>
+        )}
+
+        {editing ? (
+          <form onSubmit={save} className="space-y-4">
+            <div>
+              <Label htmlFor="companyName">{t('company.name')} *</Label>
+              <Input id="companyName" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <CompanyProfileFields value={draft} onChange={setDraft} />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? t('common.saving') : t('postJob.saveChanges')}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          company.description && (
+            <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">{company.description}</p>
+          )
+        )}
+
+        <Separator />
+
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">
+            {t('company.openJobs', { count: jobs.length })}
+          </h3>
+          {jobsLoading ? (
+            <p className="text-gray-600">{t('common.loading')}</p>
+          ) : jobs.length === 0 ? (
+            <p className="text-gray-600">{t('company.noOpenJobs')}</p>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map(job => (
+                <Card
+                  key={job.id}
+                  className="cursor-pointer hover:border-primary/20 hover:shadow-sm transition-all"
+                  onClick={() => onJobClick(job)}
+                >
+                  <CardContent className="p-4">
+                    <h4 className="font-semibold text-gray-900">{job.title}</h4>
+                    <div className="mt-1 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                      <span className="flex items-center">
+                        <MapPin className="h-4 w-4 me-1" />
+                        {formatJobLocation(job)}
+                      </span>
+                      <span className="flex items-center">
+                        <Clock className="h-4 w-4 me-1" />
+                        {translateValue('employmentType', job.employmentType)}
+                      </span>
+                      <span className="font-medium text-green-600">{formatSalary(job)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ImageIcon, X } from 'lucide-react'
+import { COMPANY_SIZES, LOGO_ACCEPT, MAX_LOGO_BYTES } from '../data/companiesRepository'
+import { useToast } from '../hooks/use-toast'
+import { useI18n } from '../hooks/use-i18n'
+import type { CompanyProfileDraft } from '../lib/companyDraft'
+import type { CompanySize } from '../types/company'
+
+interface CompanyProfileFieldsProps {
+  value: CompanyProfileDraft
+  onChange: (draft: CompanyProfileDraft) => void
+}
+
+// The profile fields shared by the post-job form and the company page editor
+export function CompanyProfileFields({ value, onChange }: CompanyProfileFieldsProps) {
+  const { toast } = useToast()
+  const { t } = useI18n()
+
+  const update = <K extends keyof CompanyProfileDraft>(field: K, fieldValue: CompanyProfileDraft[K]) => {
+    onChange({ ...value, [field]: fieldValue })
+  }
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: t('common.error'),
+        description: t('company.errors.logoSize'),
+        variant: "destructive"
+      })
+      return
+    }
+    update('logo', file)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="companyWebsite">{t('company.website')}</Label>
+          <Input
+            id="companyWebsite"
+            type="url"
+            value={value.website}
+            onChange={(e) => update('website', e.target.value)}
+            placeholder="https://company.com"
+          />
+        </div>
+        <div>
+          <Label htmlFor="companyIndustry">{t('company.industry')}</Label>
+          <Input
+            id="companyIndustry"
+            value={value.industry}
+            onChange={(e) => update('industry', e.target.value)}
+            placeholder={t('company.industryPlaceholder')}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="companySize">{t('company.size')}</Label>
+          <Select value={value.size} onValueChange={(size) => update('size', size as CompanySize)}>
+            <SelectTrigger id="companySize">
+              <SelectValue placeholder={t('company.selectSize')} />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPANY_SIZES.map(size => (
+                <SelectItem key={size} value={size}>{t('company.employees', { size })}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="companyLogo">{t('company.logo')}</Label>
+          {value.logo ? (
+            <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+              <span className="flex items-center gap-2 truncate">
+                <ImageIcon className="h-4 w-4" />
+                <span className="truncate">{value.logo.name}</span>
+              </span>
+              <Button type="button" variant="ghost" size="sm" onClick={() => update('logo', null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <Input id="companyLogo" type="file" accept={LOGO_ACCEPT} onChange={handleLogoChange} />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="companyDescription">{t('company.about')}</Label>
+        <Textarea
+          id="companyDescription"
+          value={value.description}
+          onChange={(e) => update('description', e.target.value)}
+          placeholder={t('company.aboutPlaceholder')}
+          rows={3}
+        />
+      </div>
+    </div>
+  )
+}
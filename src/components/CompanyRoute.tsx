@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { CompanyModal } from './CompanyModal'
+import { companiesRepository } from '../data/companiesRepository'
+import { jobsRepository } from '../data/jobsRepository'
+import { useToast } from '../hooks/use-toast'
+import { t } from '../lib/i18n'
+import { hasPermission } from '../lib/permissions'
+import type { Company, CompanyInput } from '../types/company'
+import type { Job } from '../types/job'
+import type { UserProfile } from '../types/user'
+
+interface CompanyRouteProps {
+  user: UserProfile | null
+  knownCompanies: Record<string, Company>
+  onJobClick: (job: Job) => void
+  onCompanyUpdated: (company: Company) => void
+  onClose: () => void
+}
+
+// Renders /companies/:companyId on top of the board
+export function CompanyRoute({ user, knownCompanies, onJobClick, onCompanyUpdated, onClose }: CompanyRouteProps) {
+  const { companyId } = useParams()
+  const [fetchedCompany, setFetchedCompany] = useState<Company | null>(null)
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [jobsLoading, setJobsLoading] = useState(true)
+  const { toast } = useToast()
+
+  const knownCompany = companyId ? knownCompanies[companyId] : undefined
+  const company = knownCompany ?? (fetchedCompany?.id === companyId ? fetchedCompany : null)
+
+  useEffect(() => {
+    if (!companyId || knownCompany) return
+
+    let cancelled = false
+    companiesRepository.get(companyId)
+      .then(result => {
+        if (!cancelled) setFetchedCompany(result)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Error loading company:', error)
+        toast({
+          title: t('common.error'),
+          description: t('toast.companyNotFound'),
+          variant: "destructive"
+        })
+        onClose()
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [companyId, knownCompany, toast, onClose])
+
+  useEffect(() => {
+    if (!companyId) return
+
+    let cancelled = false
+    setJobsLoading(true)
+    jobsRepository.listForCompany(companyId)
+      .then(result => {
+        if (!cancelled) setJobs(result)
+      })
+      .catch(error => console.error('Error loading company jobs:', error))
+      .finally(() => {
+        if (!cancelled) setJobsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [companyId])
+
+  if (!company) return null
+
+  const canVerify = hasPermission(user, 'verifyCompanies')
+
+  const applyUpdate = (updated: Company) => {
+    setFetchedCompany(updated)
+    onCompanyUpdated(updated)
+  }
+
+  const handleSave = async (input: CompanyInput, logo?: File) => {
+    try {
+      const updated = await companiesRepository.update(company, input, logo)
+      setJobs(prev => prev.map(job => ({ ...job, company: updated.name })))
+      applyUpdate(updated)
+      toast({
+        title: t('toast.companyUpdated'),
+        description: t('toast.companyUpdatedDescription', { name: updated.name })
+      })
+      return true
+    } catch (error) {
+      console.error('Error updating company:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.updateCompanyFailed'),
+        variant: "destructive"
+      })
+      return false
+    }
+  }
+
+  const handleSetVerified = async (verified: boolean) => {
+    try {
+      applyUpdate(await companiesRepository.setVerified(company.id, verified))
+    } catch (error) {
+      console.error('Error verifying company:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.updateCompanyFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  return (
+    <CompanyModal
+      key={company.id}
+      company={company}
+      jobs={jobs}
+      jobsLoading={jobsLoading}
+      open
+      onOpenChange={(open) => !open && onClose()}
+      onJobClick={onJobClick}
+      // Admins can edit and verify any company
+      onSave={company.userId === user?.id || canVerify ? handleSave : undefined}
+      onSetVerified={canVerify ? handleSetVerified : undefined}
+    />
+  )
+}
@@ -0,0 +1,32 @@
+import { Button } from './ui/button'
+import { Columns3, X } from 'lucide-react'
+import { MAX_COMPARED_JOBS } from '../lib/compare'
+import { useI18n } from '../hooks/use-i18n'
+
+interface CompareBarProps {
+  count: number
+  onCompare: () => void
+  onClear: () => void
+}
+
+// Floats over the board while jobs are picked for comparison
+export function CompareBar({ count, onCompare, onClear }: CompareBarProps) {
+  const { t } = useI18n()
+
+  return (
+    <div className="fixed bottom-6 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto flex items-center gap-3 rounded-full border border-gray-200 bg-white px-5 py-2 shadow-lg">
+        <span className="text-sm text-gray-700">
+          {t('compare.selected', { count, max: MAX_COMPARED_JOBS })}
+        </span>
+        <Button size="sm" onClick={onCompare} disabled={count < 2}>
+          <Columns3 className="h-4 w-4 me-2" />
+          {t('compare.open')}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClear} title={t('compare.clear')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Markdown } from './Markdown'
+import { Columns3, Download, Printer } from 'lucide-react'
+import { bestPaidJobId, comparisonCsv, comparisonRows, sharedTags } from '../lib/compare'
+import { useI18n } from '../hooks/use-i18n'
+import type { Job } from '../types/job'
+
+interface CompareJobsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  jobs: Job[]
+  loading: boolean
+  // What salaries are normalized to
+  currency: string
+  onJobClick: (job: Job) => void
+}
+
+const DIFFERS_CLASS = 'bg-yellow-50'
+
+// Jobs side by side, one column each. Rows where the jobs differ are
+// highlighted, and the table can be printed or downloaded as CSV.
+export function CompareJobsModal({
+  open,
+  onOpenChange,
+  jobs,
+  loading,
+  currency,
+  onJobClick
+}: CompareJobsModalProps) {
+  const { t } = useI18n()
+  const rows = comparisonRows(jobs, currency)
+  const shared = sharedTags(jobs)
+  const bestPaid = bestPaidJobId(jobs, currency)
+
+  const handleExport = () => {
+    // The byte order mark makes spreadsheet apps read the file as UTF-8
+    const blob = new Blob(['\uFEFF', comparisonCsv(jobs, rows)], { type: 'text/csv;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'job-comparison.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="job-comparison max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Columns3 className="h-5 w-5 me-2" />
+            {t('compare.title', { count: jobs.length })}
+          </DialogTitle>
+          <p className="text-sm text-gray-600">{t('compare.subtitle')}</p>
+        </DialogHeader>
+
+        {jobs.length < 2 ? (
+          <p className="text-center text-gray-600 py-12">
+            {loading ? t('common.loading') : t('compare.tooFew')}
+          </p>
+        ) : (
+          <>
+            <div className="flex justify-end gap-2 print:hidden">
+              <Button variant="outline" size="sm" onClick={() => window.print()}>
+                <Printer className="h-4 w-4 me-2" />
+                {t('compare.print')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport}>
+                <Download className="h-4 w-4 me-2" />
+                {t('compare.export')}
+              </Button>
+            </div>
+
+            <Table className="table-fixed">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {jobs.map(job => (
+                    <TableHead key={job.id} className="align-top py-2">
+                      <button
+                        type="button"
+                        onClick={() => onJobClick(job)}
+                        className="text-start font-semibold text-gray-900 hover:text-primary transition-colors"
+                      >
+                        {job.title}
+                      </button>
+                      <p className="text-sm font-medium text-primary">{job.company}</p>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.field}>
+                    <TableCell className="align-top font-medium text-gray-700">
+                      {t(row.label)}
+                      {row.differs && (
+                        <span className="block text-xs font-normal text-yellow-700">{t('compare.differs')}</span>
+                      )}
+                    </TableCell>
+                    {jobs.map((job, index) => (
+                      <TableCell
+                        key={job.id}
+                        className={`align-top text-sm whitespace-normal break-words ${row.differs ? DIFFERS_CLASS : ''}`}
+                      >
+                        {row.field === 'tags' && job.tags.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {job.tags.map(tag => (
+                              <Badge
+                                key={tag}
+                                variant={shared.includes(tag) ? 'secondary' : 'outline'}
+                                className={`text-xs ${shared.includes(tag) ? '' : 'border-yellow-300 bg-yellow-100 text-yellow-800'}`}
+                              >
+                                {tag}
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : row.field === 'benefits' && job.benefits ? (
+                          <Markdown source={job.benefits} className="space-y-1 text-sm" />
+                        ) : (
+                          <span className={row.field === 'salary' && job.id === bestPaid ? 'font-semibold text-green-700' : ''}>
+                            {row.values[index]}
+                          </span>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
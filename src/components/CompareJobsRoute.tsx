@@ -0,0 +1,26 @@
+import { CompareJobsModal } from './CompareJobsModal'
+import { useRouteJobs } from '../hooks/use-route-job'
+import type { Job } from '../types/job'
+
+interface CompareJobsRouteProps {
+  knownJobs: Job[]
+  currency: string
+  onJobClick: (job: Job) => void
+  onClose: () => void
+}
+
+// Renders /compare/:jobIds on top of the board
+export function CompareJobsRoute({ knownJobs, currency, onJobClick, onClose }: CompareJobsRouteProps) {
+  const { jobs, loading } = useRouteJobs(knownJobs)
+
+  return (
+    <CompareJobsModal
+      open
+      onOpenChange={(open) => !open && onClose()}
+      jobs={jobs}
+      loading={loading}
+      currency={currency}
+      onJobClick={onJobClick}
+    />
+  )
+}
@@ -0,0 +1,26 @@
+import { Checkbox } from './ui/checkbox'
+import { Label } from './ui/label'
+import { useI18n } from '../hooks/use-i18n'
+
+interface CompareToggleProps {
+  jobId: string
+  checked: boolean
+  // Set once the comparison is full, for jobs that aren't in it
+  disabled: boolean
+  onToggle: () => void
+}
+
+// Adds a job to the comparison from a job card, without opening the card
+export function CompareToggle({ jobId, checked, disabled, onToggle }: CompareToggleProps) {
+  const { t } = useI18n()
+  const id = `compare-${jobId}`
+
+  return (
+    <div className="flex items-center gap-1.5" onClick={(e) => e.stopPropagation()}>
+      <Checkbox id={id} checked={checked} disabled={disabled} onCheckedChange={onToggle} />
+      <Label htmlFor={id} className="text-xs font-normal text-gray-600">
+        {t('compare.toggle')}
+      </Label>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { PostJobModal } from './PostJobModal'
+import { useOwnedRouteJob } from '../hooks/use-route-job'
+import type { Job } from '../types/job'
+
+interface EditJobRouteProps {
+  userId: string
+  knownJobs: Job[]
+  onJobUpdated: (job: Job) => void
+  onClose: () => void
+}
+
+// Renders /jobs/:jobId/edit. Only the poster can edit a job.
+export function EditJobRoute({ userId, knownJobs, onJobUpdated, onClose }: EditJobRouteProps) {
+  const job = useOwnedRouteJob(knownJobs, userId, onClose)
+
+  if (!job) return null
+
+  return (
+    <PostJobModal
+      key={job.id}
+      open
+      onOpenChange={(open) => !open && onClose()}
+      job={job}
+      onJobPosted={onJobUpdated}
+    />
+  )
+}
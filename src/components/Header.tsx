@@ -1,16 +1,62 @@
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { Plus, Bookmark, LogOut } from 'lucide-react'
+import { Plus, Bookmark, Briefcase, ClipboardList, Gavel, LogIn, LogOut, ShieldCheck } from 'lucide-react'
 import { blink } from '../blink/client'
+import { SavedSearchesMenu } from './SavedSearchesMenu'
+import { NotificationsMenu } from './NotificationsMenu'
+import { LanguageMenu } from './LanguageMenu'
+import { useI18n } from '../hooks/use-i18n'
+import { hasPermission } from '../lib/permissions'
+import type { SavedSearch } from '../types/savedSearch'
+import type { AppNotification } from '../types/notification'
+import type { UserProfile } from '../types/user'
 
 interface HeaderProps {
-  user: any
+  // Null while browsing anonymously
+  user: UserProfile | null
+  onSignIn: () => void
   onPostJob: () => void
   onShowSavedJobs: () => void
+  onShowMyApplications: () => void
+  onShowMyPostings: () => void
+  onShowAdmin: () => void
+  onShowModeration: () => void
+  // Postings waiting for review, shown to moderators
+  pendingReviewCount: number
   savedJobsCount: number
+  applicationsCount: number
+  savedSearches: SavedSearch[]
+  newSearchMatchCounts: Record<string, number>
+  onOpenSavedSearch: (search: SavedSearch) => void
+  onDeleteSavedSearch: (search: SavedSearch) => void
+  notifications: AppNotification[]
+  onOpenNotification: (notification: AppNotification) => void
+  onMarkNotificationsRead: () => void
 }
 
-export function Header({ user, onPostJob, onShowSavedJobs, savedJobsCount }: HeaderProps) {
+export function Header({
+  user,
+  onSignIn,
+  onPostJob,
+  onShowSavedJobs,
+  onShowMyApplications,
+  onShowMyPostings,
+  onShowAdmin,
+  onShowModeration,
+  pendingReviewCount,
+  savedJobsCount,
+  applicationsCount,
+  savedSearches,
+  newSearchMatchCounts,
+  onOpenSavedSearch,
+  onDeleteSavedSearch,
+  notifications,
+  onOpenNotification,
+  onMarkNotificationsRead
+}: HeaderProps) {
+  const { t } = useI18n()
+  const canPostJobs = hasPermission(user, 'postJobs')
+
   return (
     <header className="fixed top-0 left-0 right-0 bg-white border-b border-gray-200 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -18,49 +64,138 @@ export function Header({ user, onPostJob, onShowSavedJobs, savedJobsCount }: Hea
           {/* Logo */}
           <div className="flex items-center">
             <h1 className="text-2xl font-bold text-primary">NicheJobs</h1>
-            <span className="ml-2 text-sm text-gray-500">Discover specialized opportunities</span>
+            <span className="ms-2 text-sm text-gray-500">{t('header.tagline')}</span>
           </div>
 
           {/* Actions */}
-          <div className="flex items-center space-x-4">
-            <Button
-              onClick={onShowSavedJobs}
-              variant="outline"
-              size="sm"
-              className="relative"
-            >
-              <Bookmark className="h-4 w-4 mr-2" />
-              Saved Jobs
-              {savedJobsCount > 0 && (
-                <Badge 
-                  variant="secondary" 
-                  className="ml-2 bg-primary text-white text-xs px-1.5 py-0.5"
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            {/* Visitors browsing without an account only see the board */}
+            {user && (
+              <>
+                <SavedSearchesMenu
+                  savedSearches={savedSearches}
+                  newCounts={newSearchMatchCounts}
+                  onOpenSearch={onOpenSavedSearch}
+                  onDeleteSearch={onDeleteSavedSearch}
+                />
+
+                <Button
+                  onClick={onShowSavedJobs}
+                  variant="outline"
+                  size="sm"
+                  className="relative"
                 >
-                  {savedJobsCount}
-                </Badge>
-              )}
-            </Button>
+                  <Bookmark className="h-4 w-4 me-2" />
+                  {t('header.savedJobs')}
+                  {savedJobsCount > 0 && (
+                    <Badge 
+                      variant="secondary" 
+                      className="ms-2 bg-primary text-white text-xs px-1.5 py-0.5"
+                    >
+                      {savedJobsCount}
+                    </Badge>
+                  )}
+                </Button>
+
+                <Button
+                  onClick={onShowMyApplications}
+                  variant="outline"
+                  size="sm"
+                >
+                  <ClipboardList className="h-4 w-4 me-2" />
+                  {t('header.myApplications')}
+                  {applicationsCount > 0 && (
+                    <Badge 
+                      variant="secondary" 
+                      className="ms-2 bg-primary text-white text-xs px-1.5 py-0.5"
+                    >
+                      {applicationsCount}
+                    </Badge>
+                  )}
+                </Button>
 
-            <Button
-              onClick={onPostJob}
-              size="sm"
-              className="bg-primary hover:bg-primary/90"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Post Job
-            </Button>
+                {canPostJobs && (
+                  <Button
+                    onClick={onShowMyPostings}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Briefcase className="h-4 w-4 me-2" />
+                    {t('header.myPostings')}
+                  </Button>
+                )}
 
-            <div className="flex items-center space-x-3 pl-4 border-l border-gray-200">
-              <div className="text-sm">
-                <p className="font-medium text-gray-900">{user.email}</p>
-              </div>
+                {hasPermission(user, 'reviewJobs') && (
+                  <Button
+                    onClick={onShowModeration}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Gavel className="h-4 w-4 me-2" />
+                    {t('header.reviewQueue')}
+                    {pendingReviewCount > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="ms-2 bg-orange-500 text-white text-xs px-1.5 py-0.5"
+                      >
+                        {pendingReviewCount}
+                      </Badge>
+                    )}
+                  </Button>
+                )}
+
+                {hasPermission(user, 'manageRoles') && (
+                  <Button
+                    onClick={onShowAdmin}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <ShieldCheck className="h-4 w-4 me-2" />
+                    {t('header.admin')}
+                  </Button>
+                )}
+              </>
+            )}
+
+            {/* Visitors are asked to sign in first */}
+            {(!user || canPostJobs) && (
               <Button
-                onClick={() => blink.auth.logout()}
-                variant="ghost"
+                onClick={onPostJob}
                 size="sm"
+                className="bg-primary hover:bg-primary/90"
               >
-                <LogOut className="h-4 w-4" />
+                <Plus className="h-4 w-4 me-2" />
+                {t('header.postJob')}
               </Button>
+            )}
+
+            <div className="flex items-center space-x-3 rtl:space-x-reverse ps-4 border-s border-gray-200">
+              <LanguageMenu />
+              {user ? (
+                <>
+                  <NotificationsMenu
+                    notifications={notifications}
+                    onOpenNotification={onOpenNotification}
+                    onMarkAllRead={onMarkNotificationsRead}
+                  />
+                  <div className="text-sm">
+                    <p className="font-medium text-gray-900">{user.email}</p>
+                  </div>
+                  <Button
+                    onClick={() => blink.auth.logout()}
+                    variant="ghost"
+                    size="sm"
+                    title={t('header.signOut')}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={onSignIn} variant="outline" size="sm">
+                  <LogIn className="h-4 w-4 me-2" />
+                  {t('header.signIn')}
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,35 @@
+import { Fragment, useMemo } from 'react'
+
+interface HighlightProps {
+  text: string
+  terms?: string[]
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Wraps whole-word occurrences of the search matches in <mark>
+export function Highlight({ text, terms }: HighlightProps) {
+  const pattern = useMemo(() => {
+    if (!terms || terms.length === 0) return null
+    const alternatives = [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.split(' ').map(escapeRegExp).join('[^\\p{L}\\p{N}]+'))
+    return new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+  }, [terms])
+
+  if (!pattern) return <>{text}</>
+
+  const parts = text.split(pattern)
+  return (
+    <>
+      {parts.map((part, index) =>
+        // split() puts the captured matches at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">{part}</mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  )
+}
@@ -1,90 +1,177 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect } from 'react'
 import { Input } from './ui/input'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Card, CardContent, CardHeader } from './ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
-import { Search, MapPin, DollarSign, Clock, Bookmark, BookmarkCheck } from 'lucide-react'
-import { Job, SavedJob } from '../App'
+import { Switch } from './ui/switch'
+import { Label } from './ui/label'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from './ui/pagination'
+import { Search, MapPin, DollarSign, Clock, Bookmark, BookmarkCheck, BellPlus, ArrowUp } from 'lucide-react'
+import type { Job, SavedJob } from '../types/job'
+import type { Company } from '../types/company'
+import { Highlight } from './Highlight'
+import { SaveSearchDialog } from './SaveSearchDialog'
+import { PlaceCombobox } from './PlaceCombobox'
+import { CompanyLogo } from './CompanyLogo'
+import { CompareToggle } from './CompareToggle'
+import { JOB_STATUS_BADGE_CLASSES, JOB_STATUS_LABELS } from '../lib/jobStatus'
+import {
+  describeFilters,
+  EMPLOYMENT_TYPES,
+  EMPTY_JOB_FILTERS,
+  EXPERIENCE_LEVELS,
+  JOBS_PAGE_SIZE,
+  radiusCenter,
+  radiusKm,
+  SALARY_THRESHOLDS,
+  SEARCH_POOL_SIZE,
+  viewerCurrency,
+  type JobFilters
+} from '../lib/jobFilters'
+import { SUPPORTED_CURRENCIES } from '../lib/currency'
+import {
+  formatJobLocation,
+  jobDistanceKm,
+  RADIUS_OPTIONS_KM,
+  WORKPLACE_TYPE_LABELS,
+  WORKPLACE_TYPES
+} from '../lib/location'
+import { translateValue } from '../lib/i18n'
+import { formatCurrency, formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import { formatConvertedSalary, formatSalary } from '../lib/salary'
+import { markdownToPlainText } from '../lib/markdown'
+import { MAX_COMPARED_JOBS } from '../lib/compare'
 
 interface JobBoardProps {
   jobs: Job[]
+  totalJobs: number
+  // Whether a text search only ranked the newest jobs containing its words
+  searchCapped?: boolean
+  // Matched words per job id while a text search is active
+  searchMatches?: Record<string, string[]>
+  loading: boolean
+  filters: JobFilters
+  onFiltersChange: (filters: JobFilters) => void
+  page: number
+  onPageChange: (page: number) => void
   savedJobs: SavedJob[]
+  // Profiles of the listed jobs' companies, by id
+  companies: Record<string, Company>
   onJobClick: (job: Job) => void
   onSaveJob: (jobId: string) => void
+  onSaveSearch: (name: string) => void
+  // Jobs posted since the list was loaded, waiting to be shown
+  newJobsCount: number
+  onShowNewJobs: () => void
+  // Jobs picked for side-by-side comparison
+  compareIds: string[]
+  onToggleCompare: (jobId: string) => void
 }
 
-export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardProps) {
-  const [searchQuery, setSearchQuery] = useState('')
-  const [locationFilter, setLocationFilter] = useState('')
-  const [employmentTypeFilter, setEmploymentTypeFilter] = useState('')
-  const [experienceLevelFilter, setExperienceLevelFilter] = useState('')
-  const [salaryMinFilter, setSalaryMinFilter] = useState('')
-
-  // Get unique values for filters
-  const locations = useMemo(() => {
-    const uniqueLocations = [...new Set(jobs.map(job => job.location))]
-    return uniqueLocations.sort()
-  }, [jobs])
-
-  const employmentTypes = useMemo(() => {
-    const uniqueTypes = [...new Set(jobs.map(job => job.employmentType))]
-    return uniqueTypes.sort()
-  }, [jobs])
-
-  const experienceLevels = useMemo(() => {
-    const uniqueLevels = [...new Set(jobs.map(job => job.experienceLevel))]
-    return uniqueLevels.sort()
-  }, [jobs])
-
-  // Filter jobs based on search and filters
-  const filteredJobs = useMemo(() => {
-    return jobs.filter(job => {
-      const matchesSearch = !searchQuery || 
-        job.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        job.company.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        job.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        job.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
-
-      const matchesLocation = !locationFilter || locationFilter === 'all-locations' || job.location === locationFilter
-      const matchesEmploymentType = !employmentTypeFilter || employmentTypeFilter === 'all-types' || job.employmentType === employmentTypeFilter
-      const matchesExperienceLevel = !experienceLevelFilter || experienceLevelFilter === 'all-levels' || job.experienceLevel === experienceLevelFilter
-      
-      const matchesSalary = !salaryMinFilter || salaryMinFilter === 'any-salary' || 
-        (job.salaryMin && job.salaryMin >= parseInt(salaryMinFilter))
-
-      return matchesSearch && matchesLocation && matchesEmploymentType && 
-             matchesExperienceLevel && matchesSalary
-    })
-  }, [jobs, searchQuery, locationFilter, employmentTypeFilter, experienceLevelFilter, salaryMinFilter])
-
-  const formatSalary = (min?: number, max?: number, currency = 'USD') => {
-    if (!min && !max) return 'Salary not specified'
-    
-    const formatter = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    })
-
-    if (min && max) {
-      return `${formatter.format(min)} - ${formatter.format(max)}`
-    } else if (min) {
-      return `${formatter.format(min)}+`
-    } else if (max) {
-      return `Up to ${formatter.format(max)}`
+const SEARCH_DEBOUNCE_MS = 300
+
+export function JobBoard({
+  jobs,
+  totalJobs,
+  searchCapped,
+  searchMatches,
+  loading,
+  filters,
+  onFiltersChange,
+  page,
+  onPageChange,
+  savedJobs,
+  companies,
+  onJobClick,
+  onSaveJob,
+  onSaveSearch,
+  newJobsCount,
+  onShowNewJobs,
+  compareIds,
+  onToggleCompare
+}: JobBoardProps) {
+  const [searchInput, setSearchInput] = useState(filters.searchQuery)
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false)
+  const { t } = useI18n()
+
+  // Keep the input in sync when the query is changed from outside (e.g. clear)
+  useEffect(() => {
+    setSearchInput(filters.searchQuery)
+  }, [filters.searchQuery])
+
+  // Debounce the search so we don't hit the database on every keystroke
+  useEffect(() => {
+    if (searchInput === filters.searchQuery) return
+    const timeout = setTimeout(() => {
+      onFiltersChange({ ...filters, searchQuery: searchInput })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput, filters, onFiltersChange])
+
+  const currency = viewerCurrency(filters)
+  const center = radiusCenter(filters)
+
+  // Shown on each card during a radius search
+  const distances = useMemo(() => {
+    const byJob: Record<string, number> = {}
+    if (!center) return byJob
+    for (const job of jobs) {
+      const distance = jobDistanceKm(job, center)
+      if (distance !== undefined) byJob[job.id] = Math.round(distance)
     }
+    return byJob
+  }, [jobs, center])
+
+  const totalPages = Math.max(1, Math.ceil(totalJobs / JOBS_PAGE_SIZE))
+  const firstShown = totalJobs === 0 ? 0 : (page - 1) * JOBS_PAGE_SIZE + 1
+  const lastShown = Math.min(page * JOBS_PAGE_SIZE, totalJobs)
+
+  const updateFilter = (field: keyof JobFilters, value: string) => {
+    // The "all-*", "any-*" and "newest" options clear the filter
+    const cleared = value.startsWith('all-') || value.startsWith('any-') || value === 'newest'
+    onFiltersChange({ ...filters, [field]: cleared ? '' : value })
+  }
+
+  // A radius only means something around a place
+  const changeLocation = (placeId: string) => {
+    onFiltersChange({ ...filters, location: placeId, radius: placeId ? filters.radius : '' })
   }
 
   const clearFilters = () => {
-    setSearchQuery('')
-    setLocationFilter('')
-    setEmploymentTypeFilter('')
-    setExperienceLevelFilter('')
-    setSalaryMinFilter('')
+    setSearchInput('')
+    onFiltersChange(EMPTY_JOB_FILTERS)
   }
 
+  const changePage = (e: React.MouseEvent, nextPage: number) => {
+    e.preventDefault()
+    if (nextPage < 1 || nextPage > totalPages || nextPage === page) return
+    onPageChange(nextPage)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // Current page, its neighbours and both ends; gaps become ellipses
+  const pageNumbers = useMemo(() => {
+    const pages: (number | 'ellipsis')[] = []
+    for (let p = 1; p <= totalPages; p++) {
+      if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+        pages.push(p)
+      } else if (pages[pages.length - 1] !== 'ellipsis') {
+        pages.push('ellipsis')
+      }
+    }
+    return pages
+  }, [page, totalPages])
+
   const isJobSaved = (jobId: string) => {
     return savedJobs.some(save => save.jobId === jobId)
   }
@@ -98,51 +185,46 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
             {/* Search */}
             <div className="lg:col-span-2">
               <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                 <Input
-                  placeholder="Search jobs, companies, or skills..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
+                  placeholder={t('board.searchPlaceholder')}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="ps-10"
                 />
               </div>
             </div>
 
             {/* Location Filter */}
-            <Select value={locationFilter} onValueChange={setLocationFilter}>
-              <SelectTrigger>
-                <SelectValue placeholder="Location" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all-locations">All Locations</SelectItem>
-                {locations.map(location => (
-                  <SelectItem key={location} value={location}>{location}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <PlaceCombobox
+              value={filters.location}
+              onChange={changeLocation}
+              placeholder={t('board.location')}
+              clearLabel={t('board.allLocations')}
+            />
 
             {/* Employment Type Filter */}
-            <Select value={employmentTypeFilter} onValueChange={setEmploymentTypeFilter}>
+            <Select value={filters.employmentType} onValueChange={(value) => updateFilter('employmentType', value)}>
               <SelectTrigger>
-                <SelectValue placeholder="Job Type" />
+                <SelectValue placeholder={t('board.jobType')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all-types">All Types</SelectItem>
-                {employmentTypes.map(type => (
-                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                <SelectItem value="all-types">{t('board.allTypes')}</SelectItem>
+                {EMPLOYMENT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{translateValue('employmentType', type)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
             {/* Experience Level Filter */}
-            <Select value={experienceLevelFilter} onValueChange={setExperienceLevelFilter}>
+            <Select value={filters.experienceLevel} onValueChange={(value) => updateFilter('experienceLevel', value)}>
               <SelectTrigger>
-                <SelectValue placeholder="Experience" />
+                <SelectValue placeholder={t('board.experience')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all-levels">All Levels</SelectItem>
-                {experienceLevels.map(level => (
-                  <SelectItem key={level} value={level}>{level}</SelectItem>
+                <SelectItem value="all-levels">{t('board.allLevels')}</SelectItem>
+                {EXPERIENCE_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{translateValue('experienceLevel', level)}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -153,55 +235,149 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
               onClick={clearFilters}
               className="w-full"
             >
-              Clear Filters
+              {t('board.clearFilters')}
             </Button>
           </div>
 
-          {/* Salary Filter */}
-          <div className="mt-4">
-            <Select value={salaryMinFilter} onValueChange={setSalaryMinFilter}>
+          {/* Distance, Workplace, Salary Filter and Expired Toggle */}
+          <div className="mt-4 flex flex-wrap items-center gap-6">
+            <Select
+              value={radiusKm(filters) ? filters.radius : 'any-distance'}
+              onValueChange={(value) => updateFilter('radius', value)}
+              disabled={!filters.location}
+            >
+              <SelectTrigger className="w-40" title={t('board.distance')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any-distance">{t('board.cityOnly')}</SelectItem>
+                {RADIUS_OPTIONS_KM.map(radius => (
+                  <SelectItem key={radius} value={String(radius)}>
+                    {t('board.withinKm', { distance: radius })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.workplace} onValueChange={(value) => updateFilter('workplace', value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder={t('board.workplace')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all-workplaces">{t('board.allWorkplaces')}</SelectItem>
+                {WORKPLACE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{t(WORKPLACE_TYPE_LABELS[type])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.salaryMin} onValueChange={(value) => updateFilter('salaryMin', value)}>
               <SelectTrigger className="w-48">
-                <SelectValue placeholder="Minimum Salary" />
+                <SelectValue placeholder={t('board.minimumSalary')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any-salary">{t('board.anySalary')}</SelectItem>
+                {SALARY_THRESHOLDS.map(threshold => (
+                  <SelectItem key={threshold} value={String(threshold)}>
+                    {t('filters.salaryAtLeast', { amount: formatCurrency(threshold, currency) })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Salaries are filtered, sorted and shown converted into this currency */}
+            <Select value={currency} onValueChange={(value) => updateFilter('currency', value)}>
+              <SelectTrigger className="w-28" title={t('board.currency')}>
+                <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="any-salary">Any Salary</SelectItem>
-                <SelectItem value="30000">$30,000+</SelectItem>
-                <SelectItem value="50000">$50,000+</SelectItem>
-                <SelectItem value="70000">$70,000+</SelectItem>
-                <SelectItem value="100000">$100,000+</SelectItem>
-                <SelectItem value="150000">$150,000+</SelectItem>
-                <SelectItem value="200000">$200,000+</SelectItem>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+
+            <Select value={filters.sort || 'newest'} onValueChange={(value) => updateFilter('sort', value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">{t('board.sortNewest')}</SelectItem>
+                <SelectItem value="salary">{t('board.sortSalary')}</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
+              <Switch
+                id="includeExpired"
+                checked={filters.includeExpired === 'true'}
+                onCheckedChange={(checked) => updateFilter('includeExpired', checked ? 'true' : '')}
+              />
+              <Label htmlFor="includeExpired" className="text-sm text-gray-600">
+                {t('board.showExpired')}
+              </Label>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setSaveSearchOpen(true)}
+              className="ms-auto"
+            >
+              <BellPlus className="h-4 w-4 me-2" />
+              {t('board.saveSearch')}
+            </Button>
           </div>
         </div>
       </div>
 
+      {newJobsCount > 0 && (
+        <button
+          type="button"
+          onClick={onShowNewJobs}
+          className="w-full mb-4 flex items-center justify-center gap-2 rounded-lg border border-primary/20 bg-primary/5 px-4 py-2 text-sm font-medium text-primary hover:bg-primary/10 transition-colors"
+        >
+          <ArrowUp className="h-4 w-4" />
+          {t('board.newJobs', { count: newJobsCount })}
+        </button>
+      )}
+
       {/* Results Header */}
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">
-          {filteredJobs.length} Job{filteredJobs.length !== 1 ? 's' : ''} Found
+          {t('board.jobsFound', { count: totalJobs })}
         </h2>
         <p className="text-gray-600">
-          Showing {filteredJobs.length} of {jobs.length} total jobs
+          {loading
+            ? t('common.loading')
+            : t('board.showing', { first: firstShown, last: lastShown, total: totalJobs })}
         </p>
       </div>
 
+      {searchCapped && !loading && (
+        <p className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-2 text-sm text-yellow-800">
+          {t('board.searchCapped', { count: SEARCH_POOL_SIZE })}
+        </p>
+      )}
+
       {/* Job Cards */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {filteredJobs.map(job => (
+      <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+        {jobs.map(job => (
           <Card 
             key={job.id} 
             className="hover:shadow-lg transition-all duration-200 cursor-pointer border-gray-200 hover:border-primary/20"
             onClick={() => onJobClick(job)}
           >
             <CardHeader className="pb-3">
-              <div className="flex items-start justify-between">
+              <div className="flex items-start justify-between gap-3">
+                <CompanyLogo company={job.companyId ? companies[job.companyId] : undefined} name={job.company} />
                 <div className="flex-1">
                   <h3 className="text-lg font-semibold text-gray-900 mb-1 hover:text-primary transition-colors">
-                    {job.title}
+                    <Highlight text={job.title} terms={searchMatches?.[job.id]} />
                   </h3>
-                  <p className="text-primary font-medium mb-2">{job.company}</p>
+                  <p className="text-primary font-medium mb-2">
+                    <Highlight text={job.company} terms={searchMatches?.[job.id]} />
+                  </p>
                 </div>
                 <Button
                   variant="ghost"
@@ -224,28 +400,36 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
             <CardContent className="pt-0">
               <div className="space-y-3">
                 {/* Location and Employment Type */}
-                <div className="flex items-center space-x-4 text-sm text-gray-600">
+                <div className="flex items-center space-x-4 rtl:space-x-reverse text-sm text-gray-600">
                   <div className="flex items-center">
-                    <MapPin className="h-4 w-4 mr-1" />
-                    {job.location}
+                    <MapPin className="h-4 w-4 me-1" />
+                    {formatJobLocation(job)}
+                    {distances[job.id] !== undefined && (
+                      <span className="ms-1 text-gray-400">
+                        {t('location.distanceAway', { distance: distances[job.id] })}
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center">
-                    <Clock className="h-4 w-4 mr-1" />
-                    {job.employmentType}
+                    <Clock className="h-4 w-4 me-1" />
+                    {translateValue('employmentType', job.employmentType)}
                   </div>
                 </div>
 
                 {/* Salary */}
                 <div className="flex items-center text-sm">
-                  <DollarSign className="h-4 w-4 mr-1 text-green-600" />
+                  <DollarSign className="h-4 w-4 me-1 text-green-600" />
                   <span className="font-medium text-green-600">
-                    {formatSalary(job.salaryMin, job.salaryMax, job.salaryCurrency)}
+                    {formatSalary(job)}
                   </span>
+                  {formatConvertedSalary(job, currency) && (
+                    <span className="ms-2 text-gray-500">{formatConvertedSalary(job, currency)}</span>
+                  )}
                 </div>
 
                 {/* Description Preview */}
                 <p className="text-gray-600 text-sm line-clamp-2">
-                  {job.description}
+                  <Highlight text={markdownToPlainText(job.description)} terms={searchMatches?.[job.id]} />
                 </p>
 
                 {/* Tags */}
@@ -253,12 +437,12 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
                   <div className="flex flex-wrap gap-2">
                     {job.tags.slice(0, 4).map((tag, index) => (
                       <Badge key={index} variant="secondary" className="text-xs">
-                        {tag}
+                        <Highlight text={tag} terms={searchMatches?.[job.id]} />
                       </Badge>
                     ))}
                     {job.tags.length > 4 && (
                       <Badge variant="outline" className="text-xs">
-                        +{job.tags.length - 4} more
+                        {t('common.moreTags', { count: job.tags.length - 4 })}
                       </Badge>
                     )}
                   </div>
@@ -266,12 +450,27 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
 
                 {/* Experience Level */}
                 <div className="flex items-center justify-between pt-2">
-                  <Badge variant="outline" className="text-xs">
-                    {job.experienceLevel}
-                  </Badge>
-                  <span className="text-xs text-gray-500">
-                    {new Date(job.createdAt).toLocaleDateString()}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {translateValue('experienceLevel', job.experienceLevel)}
+                    </Badge>
+                    {job.status === 'expired' && (
+                      <Badge variant="outline" className={`text-xs ${JOB_STATUS_BADGE_CLASSES.expired}`}>
+                        {t(JOB_STATUS_LABELS.expired)}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <CompareToggle
+                      jobId={job.id}
+                      checked={compareIds.includes(job.id)}
+                      disabled={!compareIds.includes(job.id) && compareIds.length >= MAX_COMPARED_JOBS}
+                      onToggle={() => onToggleCompare(job.id)}
+                    />
+                    <span className="text-xs text-gray-500">
+                      {formatDate(job.createdAt)}
+                    </span>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -279,21 +478,69 @@ export function JobBoard({ jobs, savedJobs, onJobClick, onSaveJob }: JobBoardPro
         ))}
       </div>
 
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <Pagination className="mt-8">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                label={t('board.previousPage')}
+                onClick={(e) => changePage(e, page - 1)}
+                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+            {pageNumbers.map((pageNumber, index) => (
+              <PaginationItem key={pageNumber === 'ellipsis' ? `ellipsis-${index}` : pageNumber}>
+                {pageNumber === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    href="#"
+                    isActive={pageNumber === page}
+                    onClick={(e) => changePage(e, pageNumber)}
+                  >
+                    {pageNumber}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                label={t('board.nextPage')}
+                onClick={(e) => changePage(e, page + 1)}
+                className={page === totalPages ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
       {/* Empty State */}
-      {filteredJobs.length === 0 && (
+      {!loading && jobs.length === 0 && (
         <div className="text-center py-12">
           <div className="max-w-md mx-auto">
             <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No jobs found</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{t('board.empty.title')}</h3>
             <p className="text-gray-600 mb-4">
-              Try adjusting your search criteria or clearing some filters.
+              {t('board.empty.body')}
             </p>
             <Button onClick={clearFilters} variant="outline">
-              Clear All Filters
+              {t('board.empty.clearAll')}
             </Button>
           </div>
         </div>
       )}
+
+      {saveSearchOpen && (
+        <SaveSearchDialog
+          open
+          onOpenChange={setSaveSearchOpen}
+          defaultName={describeFilters(filters)}
+          onSave={onSaveSearch}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
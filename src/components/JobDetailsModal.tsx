@@ -1,45 +1,81 @@
+import { useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Separator } from './ui/separator'
-import { MapPin, DollarSign, Clock, Calendar, Mail, ExternalLink, Bookmark, BookmarkCheck } from 'lucide-react'
-import { Job } from '../App'
+import { MapPin, DollarSign, Clock, Calendar, Mail, ExternalLink, FileText, Bookmark, BookmarkCheck, Globe, Flag } from 'lucide-react'
+import type { Application } from '../types/application'
+import type { Job, JobStatus } from '../types/job'
+import type { Company } from '../types/company'
+import type { ReportCategory } from '../types/report'
+import { CompanyLogo } from './CompanyLogo'
+import { ReportJobDialog } from './ReportJobDialog'
+import { Markdown } from './Markdown'
+import { isAcceptingApplications, isPastExpiry } from '../lib/jobStatus'
+import { formatSalary } from '../lib/salary'
+import { formatJobLocation, formatTimezone } from '../lib/location'
+import { translateValue, type MessageKey } from '../lib/i18n'
+import { formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import { APPLICATION_STAGE_CLASSES, APPLICATION_STAGE_LABELS } from '../lib/applicationStages'
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<JobStatus, 'active'>, MessageKey> = {
+  draft: 'jobDetails.unavailable.draft',
+  pending: 'jobDetails.unavailable.pending',
+  rejected: 'jobDetails.unavailable.rejected',
+  paused: 'jobDetails.unavailable.paused',
+  expired: 'jobDetails.unavailable.expired',
+  filled: 'jobDetails.unavailable.filled'
+}
 
 interface JobDetailsModalProps {
   job: Job | null
+  // The job's company profile, once loaded
+  company?: Company
+  onViewCompany?: () => void
   open: boolean
   onOpenChange: (open: boolean) => void
   isSaved: boolean
   onSaveJob?: () => void
+  // The signed-in candidate's application to this job, if they applied on the board
+  application?: Application
+  onApplyOnsite?: () => void
+  // Called when the candidate leaves to apply by email or on the company site
+  onApplyExternal?: () => void
+  // Whether the signed-in user has already reported this job
+  isReported?: boolean
+  // Left out for the poster's own listings
+  onReport?: (category: ReportCategory, details: string) => Promise<boolean>
 }
 
-export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }: JobDetailsModalProps) {
-  if (!job) return null
+export function JobDetailsModal({
+  job,
+  company,
+  onViewCompany,
+  open,
+  onOpenChange,
+  isSaved,
+  onSaveJob,
+  application,
+  onApplyOnsite,
+  onApplyExternal,
+  isReported = false,
+  onReport
+}: JobDetailsModalProps) {
+  const [reportOpen, setReportOpen] = useState(false)
+  const { t } = useI18n()
 
-  const formatSalary = (min?: number, max?: number, currency = 'USD') => {
-    if (!min && !max) return 'Salary not specified'
-    
-    const formatter = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    })
-
-    if (min && max) {
-      return `${formatter.format(min)} - ${formatter.format(max)}`
-    } else if (min) {
-      return `${formatter.format(min)}+`
-    } else if (max) {
-      return `Up to ${formatter.format(max)}`
-    }
-  }
+  if (!job) return null
 
   const handleApply = () => {
     if (job.applicationType === 'email' && job.applicationEmail) {
-      window.location.href = `mailto:${job.applicationEmail}?subject=Application for ${job.title} at ${job.company}`
+      onApplyExternal?.()
+      window.location.href = `mailto:${job.applicationEmail}?subject=${encodeURIComponent(t('jobDetails.emailSubject', { title: job.title, company: job.company }))}`
     } else if (job.applicationType === 'link' && job.applicationLink) {
+      onApplyExternal?.()
       window.open(job.applicationLink, '_blank')
+    } else if (job.applicationType === 'onsite') {
+      onApplyOnsite?.()
     }
   }
 
@@ -47,12 +83,24 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <div className="flex items-start justify-between">
+          <div className="flex items-start justify-between gap-4">
+            <CompanyLogo company={company} name={job.company} className="h-14 w-14" />
             <div className="flex-1">
               <DialogTitle className="text-2xl font-bold text-gray-900 mb-2">
                 {job.title}
               </DialogTitle>
-              <p className="text-xl text-primary font-semibold mb-4">{job.company}</p>
+              {onViewCompany ? (
+                <button
+                  type="button"
+                  onClick={onViewCompany}
+                  className="text-xl text-primary font-semibold mb-4 hover:underline"
+                  title={t('company.viewProfile')}
+                >
+                  {job.company}
+                </button>
+              ) : (
+                <p className="text-xl text-primary font-semibold mb-4">{job.company}</p>
+              )}
             </div>
             {onSaveJob && (
               <Button
@@ -74,30 +122,30 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
         <div className="space-y-6">
           {/* Job Overview */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-            <div className="flex items-center space-x-2 text-gray-600">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-gray-600">
               <MapPin className="h-4 w-4" />
-              <span className="text-sm">{job.location}</span>
+              <span className="text-sm">{formatJobLocation(job)}</span>
             </div>
-            <div className="flex items-center space-x-2 text-gray-600">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-gray-600">
               <Clock className="h-4 w-4" />
-              <span className="text-sm">{job.employmentType}</span>
+              <span className="text-sm">{translateValue('employmentType', job.employmentType)}</span>
             </div>
-            <div className="flex items-center space-x-2 text-green-600">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-green-600">
               <DollarSign className="h-4 w-4" />
               <span className="text-sm font-medium">
-                {formatSalary(job.salaryMin, job.salaryMax, job.salaryCurrency)}
+                {formatSalary(job)}
               </span>
             </div>
-            <div className="flex items-center space-x-2 text-gray-600">
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-gray-600">
               <Calendar className="h-4 w-4" />
               <span className="text-sm">
-                {new Date(job.createdAt).toLocaleDateString()}
+                {formatDate(job.createdAt)}
               </span>
             </div>
           </div>
 
-          <div className="flex items-center space-x-4">
-            <Badge variant="outline">{job.experienceLevel}</Badge>
+          <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            <Badge variant="outline">{translateValue('experienceLevel', job.experienceLevel)}</Badge>
             {job.tags.map((tag, index) => (
               <Badge key={index} variant="secondary">
                 {tag}
@@ -105,16 +153,24 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
             ))}
           </div>
 
+          {/* Remote and hybrid candidates may be limited to some timezones */}
+          {job.workplaceType !== 'onsite' && (
+            <div className="flex items-start gap-2 text-sm text-gray-600">
+              <Globe className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {job.timezones.length > 0
+                  ? t('jobDetails.timezones', { timezones: job.timezones.map(formatTimezone).join(', ') })
+                  : t('jobDetails.anyTimezone')}
+              </span>
+            </div>
+          )}
+
           <Separator />
 
           {/* Job Description */}
           <div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-3">Job Description</h3>
-            <div className="prose prose-sm max-w-none">
-              <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-                {job.description}
-              </p>
-            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('jobDetails.description')}</h3>
+            <Markdown source={job.description} />
           </div>
 
           {/* Requirements */}
@@ -122,12 +178,8 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
             <>
               <Separator />
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Requirements</h3>
-                <div className="prose prose-sm max-w-none">
-                  <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-                    {job.requirements}
-                  </p>
-                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('jobDetails.requirements')}</h3>
+                <Markdown source={job.requirements} />
               </div>
             </>
           )}
@@ -137,12 +189,8 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
             <>
               <Separator />
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Benefits</h3>
-                <div className="prose prose-sm max-w-none">
-                  <p className="text-gray-700 whitespace-pre-wrap leading-relaxed">
-                    {job.benefits}
-                  </p>
-                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('jobDetails.benefits')}</h3>
+                <Markdown source={job.benefits} />
               </div>
             </>
           )}
@@ -151,38 +199,104 @@ export function JobDetailsModal({ job, open, onOpenChange, isSaved, onSaveJob }:
 
           {/* Application Section */}
           <div className="bg-gray-50 rounded-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Ready to Apply?</h3>
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2 text-gray-600">
-                {job.applicationType === 'email' ? (
-                  <>
-                    <Mail className="h-4 w-4" />
-                    <span className="text-sm">Apply via email</span>
-                  </>
-                ) : (
-                  <>
-                    <ExternalLink className="h-4 w-4" />
-                    <span className="text-sm">Apply on company website</span>
-                  </>
-                )}
-              </div>
-              <Button onClick={handleApply} className="bg-primary hover:bg-primary/90">
-                {job.applicationType === 'email' ? 'Send Email' : 'Apply Now'}
-              </Button>
-            </div>
-            {job.applicationType === 'email' && job.applicationEmail && (
-              <p className="text-xs text-gray-500 mt-2">
-                This will open your email client with a pre-filled subject line
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('jobDetails.readyToApply')}</h3>
+            {!isAcceptingApplications(job.status) ? (
+              <p className="text-sm text-gray-600">
+                {t(UNAVAILABLE_MESSAGES[job.status as Exclude<JobStatus, 'active'>])}
               </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 rtl:space-x-reverse text-gray-600">
+                    {job.applicationType === 'email' ? (
+                      <>
+                        <Mail className="h-4 w-4" />
+                        <span className="text-sm">{t('jobDetails.applyViaEmail')}</span>
+                      </>
+                    ) : job.applicationType === 'onsite' ? (
+                      <>
+                        <FileText className="h-4 w-4" />
+                        <span className="text-sm">
+                          {application
+                            ? t('jobDetails.appliedOn', { date: formatDate(application.createdAt) })
+                            : t('jobDetails.applyOnsite')}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <ExternalLink className="h-4 w-4" />
+                        <span className="text-sm">{t('jobDetails.applyViaLink')}</span>
+                      </>
+                    )}
+                  </div>
+                  <Button
+                    onClick={handleApply}
+                    disabled={Boolean(application)}
+                    className="bg-primary hover:bg-primary/90"
+                  >
+                    {job.applicationType === 'email'
+                      ? t('jobDetails.sendEmail')
+                      : application ? t('jobDetails.applied') : t('jobDetails.applyNow')}
+                  </Button>
+                </div>
+                {application && (
+                  <div className="flex items-center space-x-2 rtl:space-x-reverse mt-3 text-sm text-gray-600">
+                    <span>{t('jobDetails.currentStage')}</span>
+                    <Badge variant="outline" className={`text-xs ${APPLICATION_STAGE_CLASSES[application.stage]}`}>
+                      {t(APPLICATION_STAGE_LABELS[application.stage])}
+                    </Badge>
+                    <span className="text-xs text-gray-500">
+                      {t('jobDetails.stageSince', {
+                        date: formatDate(application.stageHistory[application.stageHistory.length - 1].changedAt)
+                      })}
+                    </span>
+                  </div>
+                )}
+                {job.applicationType === 'email' && job.applicationEmail && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {t('jobDetails.emailHint')}
+                  </p>
+                )}
+              </>
             )}
           </div>
 
           {/* Job Meta */}
-          <div className="text-xs text-gray-500 pt-4 border-t border-gray-200">
-            <p>Job posted on {new Date(job.createdAt).toLocaleDateString()}</p>
-            <p>Last updated on {new Date(job.updatedAt).toLocaleDateString()}</p>
+          <div className="flex items-end justify-between gap-4 text-xs text-gray-500 pt-4 border-t border-gray-200">
+            <div>
+              <p>{t('jobDetails.postedOn', { date: formatDate(job.createdAt) })}</p>
+              <p>{t('jobDetails.updatedOn', { date: formatDate(job.updatedAt) })}</p>
+              {job.expiresAt && (
+                <p>
+                  {t(isPastExpiry(job.expiresAt) ? 'jobDetails.expiredOn' : 'jobDetails.expiresOn', {
+                    date: formatDate(job.expiresAt)
+                  })}
+                </p>
+              )}
+            </div>
+            {onReport && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isReported}
+                onClick={() => setReportOpen(true)}
+                className="text-gray-500 hover:text-red-600"
+              >
+                <Flag className="h-4 w-4 me-1" />
+                {isReported ? t('report.reported') : t('report.action')}
+              </Button>
+            )}
           </div>
         </div>
+
+        {onReport && (
+          <ReportJobDialog
+            open={reportOpen}
+            onOpenChange={setReportOpen}
+            jobTitle={job.title}
+            onSubmit={onReport}
+          />
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,58 @@
+import { JobDetailsModal } from './JobDetailsModal'
+import { useRouteJob } from '../hooks/use-route-job'
+import type { Application } from '../types/application'
+import type { Company } from '../types/company'
+import type { JobReport, ReportCategory } from '../types/report'
+import type { Job, SavedJob } from '../types/job'
+
+interface JobDetailsRouteProps {
+  // Unset while browsing anonymously
+  userId?: string
+  knownJobs: Job[]
+  companies: Record<string, Company>
+  savedJobs: SavedJob[]
+  myApplications: Application[]
+  myReports: JobReport[]
+  onSaveJob: (jobId: string) => void
+  onApplyOnsite: (job: Job) => void
+  onApplyExternal: (job: Job) => void
+  onViewCompany: (companyId: string) => void
+  onReportJob: (job: Job, category: ReportCategory, details: string) => Promise<boolean>
+  onClose: () => void
+}
+
+// Renders /jobs/:jobId on top of the board
+export function JobDetailsRoute({
+  userId,
+  knownJobs,
+  companies,
+  savedJobs,
+  myApplications,
+  myReports,
+  onSaveJob,
+  onApplyOnsite,
+  onApplyExternal,
+  onViewCompany,
+  onReportJob,
+  onClose
+}: JobDetailsRouteProps) {
+  const job = useRouteJob(knownJobs, onClose)
+  const companyId = job?.companyId
+
+  return (
+    <JobDetailsModal
+      job={job}
+      company={companyId ? companies[companyId] : undefined}
+      onViewCompany={companyId ? () => onViewCompany(companyId) : undefined}
+      open
+      onOpenChange={(open) => !open && onClose()}
+      isSaved={job ? savedJobs.some(save => save.jobId === job.id) : false}
+      onSaveJob={job ? () => onSaveJob(job.id) : undefined}
+      application={job ? myApplications.find(application => application.jobId === job.id) : undefined}
+      onApplyOnsite={job ? () => onApplyOnsite(job) : undefined}
+      onApplyExternal={job ? () => onApplyExternal(job) : undefined}
+      isReported={job ? myReports.some(report => report.jobId === job.id) : false}
+      onReport={job && userId && job.userId !== userId ? (category, details) => onReportJob(job, category, details) : undefined}
+    />
+  )
+}
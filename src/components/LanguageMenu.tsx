@@ -0,0 +1,38 @@
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Languages } from 'lucide-react'
+import { LOCALES, type Locale } from '../lib/i18n'
+import { useI18n } from '../hooks/use-i18n'
+
+export function LanguageMenu() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" title={t('language.title')}>
+          <Languages className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{t('language.title')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+          {(Object.keys(LOCALES) as Locale[]).map(option => (
+            <DropdownMenuRadioItem key={option} value={option} lang={option} dir={LOCALES[option].dir}>
+              {LOCALES[option].label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,82 @@
+import { Fragment, useMemo } from 'react'
+import { parseMarkdown, type MarkdownInline } from '../lib/markdown'
+import { cn } from '../lib/utils'
+
+interface MarkdownProps {
+  source: string
+  className?: string
+}
+
+const HEADING_CLASSES = {
+  1: 'text-base font-semibold text-gray-900',
+  2: 'text-sm font-semibold text-gray-900',
+  3: 'text-sm font-medium text-gray-900'
+}
+
+function Inline({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <Fragment key={index}>{node.text}</Fragment>
+          case 'code':
+            return <code key={index} className="rounded bg-gray-100 px-1 py-0.5 text-[0.9em]">{node.text}</code>
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} /></strong>
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} /></em>
+          case 'link':
+            // Postings are user content, so links don't pass on ranking or the referrer
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="nofollow noopener noreferrer ugc"
+                className="text-primary underline underline-offset-2 hover:text-primary/80"
+              >
+                <Inline nodes={node.children} />
+              </a>
+            )
+          case 'break':
+            return <br key={index} />
+        }
+      })}
+    </>
+  )
+}
+
+// Renders a job's Markdown description as elements; see lib/markdown
+export function Markdown({ source, className }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source])
+
+  return (
+    <div className={cn('space-y-3 text-gray-700 leading-relaxed', className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 3}` as 'h4' | 'h5' | 'h6'
+            return (
+              <Heading key={index} className={HEADING_CLASSES[block.level]}>
+                <Inline nodes={block.children} />
+              </Heading>
+            )
+          }
+          case 'paragraph':
+            return <p key={index}><Inline nodes={block.children} /></p>
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul'
+            return (
+              <List key={index} className={cn('space-y-1 ps-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><Inline nodes={item} /></li>
+                ))}
+              </List>
+            )
+          }
+        }
+      })}
+    </div>
+  )
+}
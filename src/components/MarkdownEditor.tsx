@@ -0,0 +1,49 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Textarea } from './ui/textarea'
+import { Markdown } from './Markdown'
+import { useI18n } from '../hooks/use-i18n'
+
+interface MarkdownEditorProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+  required?: boolean
+}
+
+// A textarea for Markdown with a tab previewing how the job page will show it
+export function MarkdownEditor({ id, value, onChange, placeholder, rows, required }: MarkdownEditorProps) {
+  const { t } = useI18n()
+
+  return (
+    <Tabs defaultValue="write">
+      <div className="flex items-center justify-between gap-2">
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="text-xs">{t('markdown.write')}</TabsTrigger>
+          <TabsTrigger value="preview" className="text-xs">{t('markdown.preview')}</TabsTrigger>
+        </TabsList>
+        <span className="text-xs text-gray-500">{t('markdown.hint')}</span>
+      </div>
+      <TabsContent value="write" className="mt-2">
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          required={required}
+        />
+      </TabsContent>
+      <TabsContent value="preview" className="mt-2">
+        <div className="min-h-20 rounded-md border border-gray-200 px-3 py-2 text-sm">
+          {value.trim() ? (
+            <Markdown source={value} />
+          ) : (
+            <p className="text-gray-500">{t('markdown.empty')}</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  )
+}
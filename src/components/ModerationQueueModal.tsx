@@ -0,0 +1,299 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, Check, Eye, Flag, ShieldCheck, X } from 'lucide-react'
+import { MODERATION_FLAG_LABELS, REPORT_CATEGORIES, REPORT_CATEGORY_LABELS } from '../lib/moderation'
+import { formatJobLocation } from '../lib/location'
+import { formatCurrency, formatRelative } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import type { Job, ModerationFlag } from '../types/job'
+import type { JobReport } from '../types/report'
+
+interface ModerationQueueModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  queue: Job[]
+  // Open reports, and the live postings they're about
+  reports: JobReport[]
+  reportedJobs: Job[]
+  loading: boolean
+  onViewJob: (job: Job) => void
+  onApprove: (job: Job) => Promise<void>
+  onReject: (job: Job, reason: string) => Promise<void>
+  onDismissReports: (job: Job) => Promise<void>
+}
+
+function FlagBadge({ flag }: { flag: ModerationFlag }) {
+  const { t } = useI18n()
+  const detail = flag.kind === 'salaryOutlier'
+    ? t('moderation.annualSalary', { amount: formatCurrency(Number(flag.detail), 'USD') })
+    : flag.detail
+
+  return (
+    <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200 max-w-full" title={detail}>
+      <AlertTriangle className="h-3 w-3 me-1 shrink-0" />
+      <span className="truncate">{t(MODERATION_FLAG_LABELS[flag.kind])}: {detail}</span>
+    </Badge>
+  )
+}
+
+// What users said about a posting. Reporters stay anonymous, even here.
+function ReportSummary({ reports }: { reports: JobReport[] }) {
+  const { t } = useI18n()
+  const details = reports.flatMap(report => report.details ?? [])
+
+  return (
+    <div className="flex flex-col items-start gap-1 max-w-xs">
+      {REPORT_CATEGORIES.map(category => {
+        const count = reports.filter(report => report.category === category).length
+        return count > 0 && (
+          <Badge key={category} variant="outline" className="bg-red-50 text-red-700 border-red-200">
+            <Flag className="h-3 w-3 me-1 shrink-0" />
+            {t('moderation.reportCount', { category: t(REPORT_CATEGORY_LABELS[category]), count })}
+          </Badge>
+        )
+      })}
+      {details.map((detail, index) => (
+        <p key={index} className="text-xs text-gray-600 border-s-2 border-gray-200 ps-2">{detail}</p>
+      ))}
+    </div>
+  )
+}
+
+// The moderators' review queue: approve postings onto the board, or reject
+// them with a reason the poster sees
+export function ModerationQueueModal({
+  open,
+  onOpenChange,
+  queue,
+  reports,
+  reportedJobs,
+  loading,
+  onViewJob,
+  onApprove,
+  onReject,
+  onDismissReports
+}: ModerationQueueModalProps) {
+  // Postings with a decision being saved
+  const [busy, setBusy] = useState<string[]>([])
+  const [jobToReject, setJobToReject] = useState<Job | null>(null)
+  const [reason, setReason] = useState('')
+  const { t } = useI18n()
+
+  const decide = async (job: Job, decision: () => Promise<void>) => {
+    setBusy(prev => [...prev, job.id])
+    try {
+      await decision()
+    } finally {
+      setBusy(prev => prev.filter(id => id !== job.id))
+    }
+  }
+
+  const confirmReject = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!jobToReject || !reason.trim()) return
+    const job = jobToReject
+    setJobToReject(null)
+    setReason('')
+    await decide(job, () => onReject(job, reason))
+  }
+
+  const reportsFor = (job: Job) => reports.filter(report => report.jobId === job.id)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 me-2" />
+            {t('moderation.title', { count: queue.length + reportedJobs.length })}
+          </DialogTitle>
+          <p className="text-sm text-gray-600">{t('moderation.subtitle')}</p>
+        </DialogHeader>
+
+        <Tabs defaultValue="queue">
+          <TabsList>
+            <TabsTrigger value="queue">{t('moderation.queueTab', { count: queue.length })}</TabsTrigger>
+            <TabsTrigger value="reports">{t('moderation.reportsTab', { count: reportedJobs.length })}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="queue">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('moderation.posting')}</TableHead>
+                  <TableHead>{t('moderation.submitted')}</TableHead>
+                  <TableHead>{t('moderation.flags')}</TableHead>
+                  <TableHead className="text-end">{t('moderation.decision')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-600 py-8">
+                      {loading ? t('common.loading') : t('moderation.empty')}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {queue.map(job => (
+                  <TableRow key={job.id}>
+                    <TableCell className="align-top">
+                      <p className="font-medium text-gray-900">{job.title}</p>
+                      <p className="text-sm text-primary">{job.company}</p>
+                      <p className="text-xs text-gray-500">{formatJobLocation(job)}</p>
+                    </TableCell>
+                    <TableCell className="align-top text-sm text-gray-600 whitespace-nowrap">
+                      {formatRelative(job.updatedAt)}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {job.moderationFlags.length === 0 ? (
+                        <span className="text-sm text-gray-500">{t('moderation.noFlags')}</span>
+                      ) : (
+                        <div className="flex flex-col items-start gap-1 max-w-xs">
+                          {job.moderationFlags.map(flag => (
+                            <FlagBadge key={`${flag.kind}:${flag.detail}`} flag={flag} />
+                          ))}
+                        </div>
+                      )}
+                      {/* Postings hidden after being reported come back through the queue */}
+                      {reportsFor(job).length > 0 && (
+                        <div className="mt-2">
+                          <ReportSummary reports={reportsFor(job)} />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => onViewJob(job)} title={t('moderation.view')}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy.includes(job.id)}
+                          onClick={() => decide(job, () => onApprove(job))}
+                          className="text-green-700 hover:text-green-800"
+                        >
+                          <Check className="h-4 w-4 me-1" />
+                          {t('moderation.approve')}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy.includes(job.id)}
+                          onClick={() => setJobToReject(job)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <X className="h-4 w-4 me-1" />
+                          {t('moderation.reject')}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="reports">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('moderation.posting')}</TableHead>
+                  <TableHead>{t('moderation.lastReported')}</TableHead>
+                  <TableHead>{t('moderation.reports')}</TableHead>
+                  <TableHead className="text-end">{t('moderation.decision')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reportedJobs.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-600 py-8">
+                      {loading ? t('common.loading') : t('moderation.noReports')}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {reportedJobs.map(job => (
+                  <TableRow key={job.id}>
+                    <TableCell className="align-top">
+                      <p className="font-medium text-gray-900">{job.title}</p>
+                      <p className="text-sm text-primary">{job.company}</p>
+                      <p className="text-xs text-gray-500">{formatJobLocation(job)}</p>
+                    </TableCell>
+                    <TableCell className="align-top text-sm text-gray-600 whitespace-nowrap">
+                      {/* Reports are listed newest first */}
+                      {formatRelative(reportsFor(job)[0]?.createdAt ?? job.updatedAt)}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <ReportSummary reports={reportsFor(job)} />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => onViewJob(job)} title={t('moderation.view')}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy.includes(job.id)}
+                          onClick={() => decide(job, () => onDismissReports(job))}
+                        >
+                          <Check className="h-4 w-4 me-1" />
+                          {t('moderation.dismissReports')}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy.includes(job.id)}
+                          onClick={() => setJobToReject(job)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <X className="h-4 w-4 me-1" />
+                          {t('moderation.takeDown')}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={jobToReject !== null} onOpenChange={(isOpen) => !isOpen && setJobToReject(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{t('moderation.rejectTitle', { title: jobToReject?.title ?? '' })}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={confirmReject} className="space-y-4">
+              <div>
+                <Label htmlFor="rejectionReason">{t('moderation.reason')} *</Label>
+                <Textarea
+                  id="rejectionReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t('moderation.reasonPlaceholder')}
+                  rows={4}
+                  required
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setJobToReject(null)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" variant="destructive" disabled={!reason.trim()}>
+                  {t('moderation.reject')}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ClipboardList, Trash2 } from 'lucide-react'
+import {
+  APPLY_METHOD_LABELS,
+  TRACKED_STATUSES,
+  TRACKED_STATUS_CLASSES,
+  TRACKED_STATUS_LABELS
+} from '../lib/trackedStatuses'
+import { formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import type { TrackedApplication, TrackedStatus } from '../types/trackedApplication'
+
+interface MyApplicationsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  applications: TrackedApplication[]
+  onViewJob: (jobId: string) => void
+  onChangeStatus: (application: TrackedApplication, status: TrackedStatus) => void
+  onSaveNotes: (application: TrackedApplication, notes: string) => Promise<void>
+  onRemove: (application: TrackedApplication) => void
+}
+
+interface TrackedApplicationCardProps {
+  application: TrackedApplication
+  onViewJob: () => void
+  onChangeStatus: (status: TrackedStatus) => void
+  onSaveNotes: (notes: string) => Promise<void>
+  onRemove: () => void
+}
+
+function TrackedApplicationCard({
+  application,
+  onViewJob,
+  onChangeStatus,
+  onSaveNotes,
+  onRemove
+}: TrackedApplicationCardProps) {
+  const [notes, setNotes] = useState(application.notes ?? '')
+  const [savingNotes, setSavingNotes] = useState(false)
+  const { t } = useI18n()
+  const notesChanged = notes.trim() !== (application.notes ?? '')
+
+  const handleSaveNotes = async () => {
+    setSavingNotes(true)
+    try {
+      await onSaveNotes(notes)
+    } finally {
+      setSavingNotes(false)
+    }
+  }
+
+  return (
+    <Card className="border-gray-200">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 cursor-pointer" onClick={onViewJob}>
+            <h3 className="text-lg font-semibold text-gray-900 mb-1 hover:text-primary transition-colors">
+              {application.jobTitle}
+            </h3>
+            <p className="text-primary font-medium">{application.company}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('myApplications.appliedVia', {
+                method: t(APPLY_METHOD_LABELS[application.method]),
+                date: formatDate(application.createdAt)
+              })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={application.status} onValueChange={(value) => onChangeStatus(value as TrackedStatus)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRACKED_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{t(TRACKED_STATUS_LABELS[status])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              className="text-gray-400 hover:text-red-500"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-0">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-2">
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={t('myApplications.notesPlaceholder')}
+              rows={3}
+            />
+            {notesChanged && (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSaveNotes} disabled={savingNotes}>
+                  {savingNotes ? t('common.saving') : t('myApplications.saveNotes')}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <ol className="space-y-2">
+            {[...application.history].reverse().map((change, index) => (
+              <li key={`${change.status}-${change.changedAt}-${index}`} className="flex items-center justify-between">
+                <Badge variant="outline" className={`text-xs ${TRACKED_STATUS_CLASSES[change.status]}`}>
+                  {t(TRACKED_STATUS_LABELS[change.status])}
+                </Badge>
+                <span className="text-xs text-gray-500">
+                  {formatDate(change.changedAt)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function MyApplicationsModal({
+  open,
+  onOpenChange,
+  applications,
+  onViewJob,
+  onChangeStatus,
+  onSaveNotes,
+  onRemove
+}: MyApplicationsModalProps) {
+  const { t } = useI18n()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">
+            {t('myApplications.title', { count: applications.length })}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {applications.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="max-w-md mx-auto">
+                <div className="h-12 w-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <ClipboardList className="h-6 w-6 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('myApplications.empty.title')}</h3>
+                <p className="text-gray-600">
+                  {t('myApplications.empty.body')}
+                </p>
+              </div>
+            </div>
+          ) : (
+            applications.map(application => (
+              <TrackedApplicationCard
+                key={application.id}
+                application={application}
+                onViewJob={() => onViewJob(application.jobId)}
+                onChangeStatus={(status) => onChangeStatus(application, status)}
+                onSaveNotes={(notes) => onSaveNotes(application, notes)}
+                onRemove={() => onRemove(application)}
+              />
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.close')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader } from './ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Briefcase, MapPin, Clock, Pencil, MoreHorizontal, Play, Pause, CheckCircle, RefreshCw, Trash2, Users } from 'lucide-react'
+import { DEFAULT_LISTING_DAYS, isPastExpiry, JOB_STATUS_BADGE_CLASSES, JOB_STATUS_LABELS } from '../lib/jobStatus'
+import { needsReview } from '../lib/moderation'
+import { translateValue } from '../lib/i18n'
+import { formatJobLocation } from '../lib/location'
+import { formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import type { Job } from '../types/job'
+
+interface MyPostingsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  postings: Job[]
+  applicationCounts: Record<string, number>
+  loading: boolean
+  onJobClick: (job: Job) => void
+  onEditJob: (job: Job) => void
+  // Publish a draft or put a paused, filled or expired job back on the board
+  onActivateJob: (job: Job) => void
+  onRenewJob: (job: Job) => void
+  onChangeStatus: (job: Job, status: 'paused' | 'filled') => void
+  onDeleteJob: (job: Job) => void
+  onViewApplications: (job: Job) => void
+}
+
+export function MyPostingsModal({
+  open,
+  onOpenChange,
+  postings,
+  applicationCounts,
+  loading,
+  onJobClick,
+  onEditJob,
+  onActivateJob,
+  onRenewJob,
+  onChangeStatus,
+  onDeleteJob,
+  onViewApplications
+}: MyPostingsModalProps) {
+  const [jobToDelete, setJobToDelete] = useState<Job | null>(null)
+  const { t } = useI18n()
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">
+            {t('myPostings.title', { count: postings.length })}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading && postings.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">{t('myPostings.loading')}</p>
+          ) : postings.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="max-w-md mx-auto">
+                <div className="h-12 w-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Briefcase className="h-6 w-6 text-gray-400" />
+                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('myPostings.empty.title')}</h3>
+                <p className="text-gray-600">
+                  {t('myPostings.empty.body')}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 gap-4">
+              {postings.map(job => (
+                <Card key={job.id} className="border-gray-200">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1 cursor-pointer" onClick={() => onJobClick(job)}>
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="text-lg font-semibold text-gray-900 hover:text-primary transition-colors">
+                            {job.title}
+                          </h3>
+                          <Badge variant="outline" className={`text-xs ${JOB_STATUS_BADGE_CLASSES[job.status]}`}>
+                            {t(JOB_STATUS_LABELS[job.status])}
+                          </Badge>
+                        </div>
+                        <p className="text-primary font-medium">{job.company}</p>
+                      </div>
+                      <div className="flex items-center space-x-1 rtl:space-x-reverse">
+                        {job.applicationType === 'onsite' && (
+                          <Button variant="outline" size="sm" onClick={() => onViewApplications(job)}>
+                            <Users className="h-4 w-4 me-2" />
+                            {t('myPostings.applications', { count: applicationCounts[job.id] ?? 0 })}
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => onEditJob(job)} title={t('myPostings.edit')}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {/* Nothing to change while a moderator reviews it */}
+                        {job.status !== 'pending' && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" title={t('myPostings.changeStatus')}>
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {job.status === 'draft' && (
+                                <DropdownMenuItem onClick={() => onActivateJob(job)}>
+                                  <Play className="h-4 w-4 me-2" />
+                                  {t('myPostings.publish')}
+                                </DropdownMenuItem>
+                              )}
+                              {job.status === 'active' && (
+                                <>
+                                  <DropdownMenuItem onClick={() => onChangeStatus(job, 'paused')}>
+                                    <Pause className="h-4 w-4 me-2" />
+                                    {t('myPostings.pause')}
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => onChangeStatus(job, 'filled')}>
+                                    <CheckCircle className="h-4 w-4 me-2" />
+                                    {t('myPostings.markFilled')}
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              {(job.status === 'paused' || job.status === 'filled') && (
+                                <DropdownMenuItem onClick={() => onActivateJob(job)}>
+                                  <Play className="h-4 w-4 me-2" />
+                                  {t('myPostings.reopen')}
+                                </DropdownMenuItem>
+                              )}
+                              {job.status === 'rejected' && (
+                                <DropdownMenuItem onClick={() => onEditJob(job)}>
+                                  <Pencil className="h-4 w-4 me-2" />
+                                  {t('myPostings.editAndResubmit')}
+                                </DropdownMenuItem>
+                              )}
+                              {!needsReview(job) && (
+                                <DropdownMenuItem onClick={() => onRenewJob(job)}>
+                                  <RefreshCw className="h-4 w-4 me-2" />
+                                  {t('myPostings.renew', { count: DEFAULT_LISTING_DAYS })}
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setJobToDelete(job)}
+                          className="text-gray-400 hover:text-red-500"
+                          title={t('common.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+
+                  <CardContent className="pt-0">
+                    {job.status === 'pending' && (
+                      <p className="mb-3 text-sm text-orange-700">{t('myPostings.awaitingReview')}</p>
+                    )}
+                    {job.status === 'rejected' && job.rejectionReason && (
+                      <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                        <p className="font-medium">{t('postJob.rejectedBecause')}</p>
+                        <p className="whitespace-pre-wrap">{job.rejectionReason}</p>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between text-sm text-gray-600">
+                      <div className="flex items-center space-x-4 rtl:space-x-reverse">
+                        <div className="flex items-center">
+                          <MapPin className="h-4 w-4 me-1" />
+                          {formatJobLocation(job)}
+                        </div>
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 me-1" />
+                          {translateValue('employmentType', job.employmentType)}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-500 text-end">
+                        <p>{t('myPostings.postedOn', { date: formatDate(job.createdAt) })}</p>
+                        {job.expiresAt && (
+                          <p className={job.status === 'expired' ? 'text-red-600' : ''}>
+                            {t(isPastExpiry(job.expiresAt) ? 'myPostings.expiredOn' : 'myPostings.expiresOn', {
+                              date: formatDate(job.expiresAt)
+                            })}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.close')}
+          </Button>
+        </div>
+
+        <AlertDialog open={jobToDelete !== null} onOpenChange={(isOpen) => !isOpen && setJobToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('myPostings.deleteTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('myPostings.deleteBody', { title: jobToDelete?.title ?? '' })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-red-600 hover:bg-red-700"
+                onClick={() => {
+                  if (jobToDelete) onDeleteJob(jobToDelete)
+                  setJobToDelete(null)
+                }}
+              >
+                {t('common.delete')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,71 @@
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { Bell } from 'lucide-react'
+import { formatRelative } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
+import type { AppNotification } from '../types/notification'
+
+interface NotificationsMenuProps {
+  notifications: AppNotification[]
+  onOpenNotification: (notification: AppNotification) => void
+  onMarkAllRead: () => void
+}
+
+export function NotificationsMenu({ notifications, onOpenNotification, onMarkAllRead }: NotificationsMenuProps) {
+  const { t } = useI18n()
+  const unreadCount = notifications.filter(notification => !notification.read).length
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title={t('notifications.title')}>
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -end-1 h-4 min-w-4 rounded-full bg-primary px-1 text-[10px] leading-4 text-white">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>{t('notifications.title')}</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="text-xs" onClick={onMarkAllRead}>
+              {t('notifications.markAllRead')}
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500">{t('notifications.empty')}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => onOpenNotification(notification)}
+                className="flex flex-col items-start gap-0.5"
+              >
+                <span className={`text-sm ${notification.read ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                  {notification.title}
+                </span>
+                <span className="text-xs text-gray-500 line-clamp-2">{notification.body}</span>
+                <span className="text-xs text-gray-400">
+                  {formatRelative(notification.createdAt)}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,16 @@
+import { WifiOff } from 'lucide-react'
+import { useI18n } from '../hooks/use-i18n'
+
+// Explains why the board may be out of date while the network is down
+export function OfflineBanner() {
+  const { t } = useI18n()
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4">
+      <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+        <WifiOff className="h-4 w-4 shrink-0" />
+        {t('offline.banner')}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from './ui/command'
+import { Check, ChevronsUpDown, MapPin } from 'lucide-react'
+import { cn } from '../lib/utils'
+import { findPlace, formatPlace, searchPlaces } from '../lib/location'
+import { useI18n } from '../hooks/use-i18n'
+
+interface PlaceComboboxProps {
+  // A gazetteer place id. Anything else (such as a legacy free-text
+  // location) is shown as-is until a place is picked.
+  value: string
+  onChange: (placeId: string) => void
+  placeholder: string
+  // Adds an entry that clears the selection
+  clearLabel?: string
+  id?: string
+  className?: string
+}
+
+// Autocomplete over the bundled gazetteer
+export function PlaceCombobox({ value, onChange, placeholder, clearLabel, id, className }: PlaceComboboxProps) {
+  const [open, setOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const { t } = useI18n()
+
+  const selected = findPlace(value)
+  const matches = useMemo(() => searchPlaces(query), [query])
+
+  const select = (placeId: string) => {
+    onChange(placeId)
+    setOpen(false)
+    setQuery('')
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn('w-full justify-between font-normal', className)}
+        >
+          <span className="flex items-center truncate">
+            <MapPin className="h-4 w-4 me-2 shrink-0 text-gray-400" />
+            <span className={cn('truncate', !value && 'text-muted-foreground')}>
+              {selected ? formatPlace(selected) : value || placeholder}
+            </span>
+          </span>
+          <ChevronsUpDown className="h-4 w-4 ms-2 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput value={query} onValueChange={setQuery} placeholder={t('location.searchPlaces')} />
+          <CommandList>
+            <CommandEmpty>{t('location.noPlaces')}</CommandEmpty>
+            {clearLabel && value && !query && (
+              <CommandItem value="any-location" onSelect={() => select('')}>
+                {clearLabel}
+              </CommandItem>
+            )}
+            {matches.map(place => (
+              <CommandItem key={place.id} value={place.id} onSelect={() => select(place.id)}>
+                <Check className={cn('h-4 w-4 me-2', place.id === value ? 'opacity-100' : 'opacity-0')} />
+                {formatPlace(place)}
+              </CommandItem>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
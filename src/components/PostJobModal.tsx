@@ -3,45 +3,127 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
-import { Textarea } from './ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
-import { X } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Calendar } from './ui/calendar'
+import { X, Calendar as CalendarIcon } from 'lucide-react'
+import { addDays, endOfDay } from 'date-fns'
 import { blink } from '../blink/client'
 import { useToast } from '../hooks/use-toast'
+import { useI18n } from '../hooks/use-i18n'
+import { jobsRepository } from '../data/jobsRepository'
+import { companiesRepository } from '../data/companiesRepository'
+import type { Job, JobInput, SalaryPeriod, WorkplaceType } from '../types/job'
+import { defaultExpiry } from '../lib/jobStatus'
+import { EMPLOYMENT_TYPES, EXPERIENCE_LEVELS } from '../lib/jobFilters'
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../lib/currency'
+import { defaultSalaryPeriod, SALARY_PERIODS, SALARY_PERIOD_LABELS } from '../lib/salary'
+import {
+  findPlace,
+  formatTimezone,
+  locationLabel,
+  placeOfJob,
+  TIMEZONES,
+  WORKPLACE_TYPE_LABELS,
+  WORKPLACE_TYPES
+} from '../lib/location'
+import { localeConfig, translateValue } from '../lib/i18n'
+import { formatDate } from '../lib/i18n/format'
+import { emptyCompanyDraft } from '../lib/companyDraft'
+import { PlaceCombobox } from './PlaceCombobox'
+import { CompanyCombobox } from './CompanyCombobox'
+import { CompanyProfileFields } from './CompanyProfileFields'
+import { MarkdownEditor } from './MarkdownEditor'
 
 interface PostJobModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onJobPosted: () => void
+  // When set, the form edits this job instead of posting a new one
+  job?: Job
+  onJobPosted: (job: Job) => void
 }
 
-export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalProps) {
+const emptyFormData = () => ({
+  title: '',
+  company: '',
+  // Empty until an existing profile is picked; a new one is created on save
+  companyId: '',
+  // A gazetteer place id
+  location: '',
+  workplaceType: 'onsite' as WorkplaceType,
+  salaryMin: '',
+  salaryMax: '',
+  salaryCurrency: DEFAULT_CURRENCY,
+  salaryPeriod: 'year' as SalaryPeriod,
+  description: '',
+  requirements: '',
+  benefits: '',
+  employmentType: undefined as string | undefined,
+  experienceLevel: undefined as string | undefined,
+  applicationType: 'email' as Job['applicationType'],
+  applicationEmail: '',
+  applicationLink: ''
+})
+
+const formDataFromJob = (job: Job): ReturnType<typeof emptyFormData> => ({
+  title: job.title,
+  company: job.company,
+  companyId: job.companyId ?? '',
+  // Older postings only have free text, which has to be replaced with a place
+  location: placeOfJob(job)?.id ?? '',
+  workplaceType: job.workplaceType,
+  salaryMin: job.salaryMin?.toString() ?? '',
+  salaryMax: job.salaryMax?.toString() ?? '',
+  salaryCurrency: job.salaryCurrency,
+  salaryPeriod: job.salaryPeriod,
+  description: job.description,
+  requirements: job.requirements ?? '',
+  benefits: job.benefits ?? '',
+  employmentType: job.employmentType,
+  experienceLevel: job.experienceLevel,
+  applicationType: job.applicationType,
+  applicationEmail: job.applicationEmail ?? '',
+  applicationLink: job.applicationLink ?? ''
+})
+
+export function PostJobModal({ open, onOpenChange, job, onJobPosted }: PostJobModalProps) {
+  const isEditing = Boolean(job)
+  // New postings and existing drafts can be saved without publishing
+  const canSaveDraft = !job || job.status === 'draft'
+  // Rejected postings are fixed up and sent back to the moderation queue
+  const resubmitting = job?.status === 'rejected'
   const [loading, setLoading] = useState(false)
-  const [formData, setFormData] = useState({
-    title: '',
-    company: '',
-    location: '',
-    salaryMin: '',
-    salaryMax: '',
-    salaryCurrency: 'USD',
-    description: '',
-    requirements: '',
-    benefits: '',
-    employmentType: undefined as string | undefined,
-    experienceLevel: undefined as string | undefined,
-    applicationType: 'email' as 'email' | 'link',
-    applicationEmail: '',
-    applicationLink: ''
-  })
-  const [tags, setTags] = useState<string[]>([])
+  const [formData, setFormData] = useState(() => (job ? formDataFromJob(job) : emptyFormData()))
+  const [tags, setTags] = useState<string[]>(job?.tags ?? [])
+  const [companyDraft, setCompanyDraft] = useState(emptyCompanyDraft)
+  const [timezones, setTimezones] = useState<string[]>(job?.timezones ?? [])
+  const [expiresAt, setExpiresAt] = useState<Date | undefined>(() =>
+    job?.expiresAt ? new Date(job.expiresAt) : defaultExpiry()
+  )
+  // Until the poster picks a pay period, it follows the employment type
+  const [salaryPeriodChosen, setSalaryPeriodChosen] = useState(isEditing)
   const [tagInput, setTagInput] = useState('')
   const { toast } = useToast()
+  const { t } = useI18n()
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleEmploymentTypeChange = (value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      employmentType: value,
+      salaryPeriod: salaryPeriodChosen ? prev.salaryPeriod : defaultSalaryPeriod(value)
+    }))
+  }
+
+  const handleSalaryPeriodChange = (value: string) => {
+    setSalaryPeriodChosen(true)
+    handleInputChange('salaryPeriod', value)
+  }
+
   const addTag = () => {
     if (tagInput.trim() && !tags.includes(tagInput.trim())) {
       setTags(prev => [...prev, tagInput.trim()])
@@ -53,6 +135,14 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
     setTags(prev => prev.filter(tag => tag !== tagToRemove))
   }
 
+  const addTimezone = (timezone: string) => {
+    setTimezones(prev => (prev.includes(timezone) ? prev : [...prev, timezone]))
+  }
+
+  const removeTimezone = (timezone: string) => {
+    setTimezones(prev => prev.filter(item => item !== timezone))
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault()
@@ -61,34 +151,44 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
   }
 
   const resetForm = () => {
-    setFormData({
-      title: '',
-      company: '',
-      location: '',
-      salaryMin: '',
-      salaryMax: '',
-      salaryCurrency: 'USD',
-      description: '',
-      requirements: '',
-      benefits: '',
-      employmentType: undefined,
-      experienceLevel: undefined,
-      applicationType: 'email',
-      applicationEmail: '',
-      applicationLink: ''
-    })
+    setFormData(emptyFormData())
     setTags([])
+    setCompanyDraft(emptyCompanyDraft())
+    setTimezones([])
     setTagInput('')
+    setExpiresAt(defaultExpiry())
+    setSalaryPeriodChosen(false)
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    
-    if (!formData.title || !formData.company || !formData.location || 
+  // The profile the posting belongs to. A typed-in name reuses the poster's
+  // profile with that name if they have one, and creates it otherwise.
+  const resolveCompany = async (userId: string) => {
+    if (formData.companyId) return { id: formData.companyId, name: formData.company }
+    const existing = await companiesRepository.findByName(userId, formData.company)
+    if (existing) return existing
+    return companiesRepository.create(
+      userId,
+      {
+        name: formData.company,
+        website: companyDraft.website,
+        size: companyDraft.size || undefined,
+        industry: companyDraft.industry,
+        description: companyDraft.description
+      },
+      companyDraft.logo ?? undefined
+    )
+  }
+
+  // 'draft' keeps the job off the board, 'publish' lists it, and 'save'
+  // updates an existing posting without touching its status
+  const saveJob = async (intent: 'draft' | 'publish' | 'save') => {
+    // Remote postings don't need a place, but can name where the team is based
+    const place = findPlace(formData.location)
+    if (!formData.title || !formData.company || (!place && formData.workplaceType !== 'remote') ||
         !formData.description || !formData.employmentType || !formData.experienceLevel) {
       toast({
-        title: "Error",
-        description: "Please fill in all required fields",
+        title: t('common.error'),
+        description: t('postJob.errors.required'),
         variant: "destructive"
       })
       return
@@ -96,8 +196,8 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
 
     if (formData.applicationType === 'email' && !formData.applicationEmail) {
       toast({
-        title: "Error",
-        description: "Please provide an application email",
+        title: t('common.error'),
+        description: t('postJob.errors.email'),
         variant: "destructive"
       })
       return
@@ -105,8 +205,8 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
 
     if (formData.applicationType === 'link' && !formData.applicationLink) {
       toast({
-        title: "Error",
-        description: "Please provide an application link",
+        title: t('common.error'),
+        description: t('postJob.errors.link'),
         variant: "destructive"
       })
       return
@@ -116,34 +216,49 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
     
     try {
       const user = await blink.auth.me()
-      
-      await blink.db.jobs.create({
-        id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const company = await resolveCompany(user.id)
+      const input: JobInput = {
         title: formData.title,
-        company: formData.company,
-        location: formData.location,
-        salaryMin: formData.salaryMin ? parseInt(formData.salaryMin) : null,
-        salaryMax: formData.salaryMax ? parseInt(formData.salaryMax) : null,
+        company: company.name,
+        companyId: company.id,
+        location: locationLabel(place),
+        city: place?.city,
+        region: place?.region,
+        country: place?.country,
+        latitude: place?.lat,
+        longitude: place?.lng,
+        workplaceType: formData.workplaceType,
+        timezones,
+        salaryMin: formData.salaryMin ? parseInt(formData.salaryMin) : undefined,
+        salaryMax: formData.salaryMax ? parseInt(formData.salaryMax) : undefined,
         salaryCurrency: formData.salaryCurrency,
+        salaryPeriod: formData.salaryPeriod,
         description: formData.description,
-        requirements: formData.requirements || null,
-        benefits: formData.benefits || null,
+        requirements: formData.requirements,
+        benefits: formData.benefits,
         employmentType: formData.employmentType,
         experienceLevel: formData.experienceLevel,
         applicationType: formData.applicationType,
-        applicationEmail: formData.applicationType === 'email' ? formData.applicationEmail : null,
-        applicationLink: formData.applicationType === 'link' ? formData.applicationLink : null,
-        tags: JSON.stringify(tags),
-        userId: user.id
-      })
+        applicationEmail: formData.applicationEmail,
+        applicationLink: formData.applicationLink,
+        tags,
+        expiresAt: expiresAt ? endOfDay(expiresAt).toISOString() : undefined
+      }
+
+      let savedJob: Job
+      if (job) {
+        savedJob = await jobsRepository.update(job.id, input, intent === 'publish' ? 'publish' : undefined)
+      } else {
+        savedJob = await jobsRepository.create(user.id, input, intent === 'draft' ? 'draft' : 'publish')
+      }
 
       resetForm()
-      onJobPosted()
+      onJobPosted(savedJob)
     } catch (error) {
       console.error('Error posting job:', error)
       toast({
-        title: "Error",
-        description: "Failed to post job. Please try again.",
+        title: t('common.error'),
+        description: t(isEditing ? 'postJob.errors.update' : 'postJob.errors.post'),
         variant: "destructive"
       })
     } finally {
@@ -151,70 +266,141 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
     }
   }
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    saveJob(canSaveDraft || resubmitting ? 'publish' : 'save')
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Post a New Job</DialogTitle>
+          <DialogTitle>{t(isEditing ? 'postJob.editTitle' : 'postJob.title')}</DialogTitle>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {resubmitting && job?.rejectionReason && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              <p className="font-medium">{t('postJob.rejectedBecause')}</p>
+              <p className="whitespace-pre-wrap">{job.rejectionReason}</p>
+            </div>
+          )}
+
           {/* Basic Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="title">Job Title *</Label>
+              <Label htmlFor="title">{t('postJob.jobTitle')} *</Label>
               <Input
                 id="title"
                 value={formData.title}
                 onChange={(e) => handleInputChange('title', e.target.value)}
-                placeholder="e.g. Senior React Developer"
+                placeholder={t('postJob.jobTitlePlaceholder')}
                 required
               />
             </div>
             <div>
-              <Label htmlFor="company">Company *</Label>
-              <Input
+              <Label htmlFor="company">{t('postJob.company')} *</Label>
+              <CompanyCombobox
                 id="company"
-                value={formData.company}
-                onChange={(e) => handleInputChange('company', e.target.value)}
-                placeholder="e.g. TechCorp Inc."
-                required
+                name={formData.company}
+                companyId={formData.companyId || undefined}
+                onChange={(name, company) =>
+                  setFormData(prev => ({ ...prev, company: name, companyId: company?.id ?? '' }))
+                }
               />
             </div>
           </div>
 
+          {/* Profile for a company posting for the first time */}
+          {formData.company && !formData.companyId && (
+            <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+              <div>
+                <h3 className="font-medium text-gray-900">{t('company.newProfile', { name: formData.company })}</h3>
+                <p className="text-sm text-gray-500">{t('company.newProfileHint')}</p>
+              </div>
+              <CompanyProfileFields value={companyDraft} onChange={setCompanyDraft} />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="location">Location *</Label>
-              <Input
+              <Label htmlFor="location">
+                {formData.workplaceType === 'remote' ? t('postJob.basedIn') : `${t('postJob.location')} *`}
+              </Label>
+              <PlaceCombobox
                 id="location"
                 value={formData.location}
-                onChange={(e) => handleInputChange('location', e.target.value)}
-                placeholder="e.g. San Francisco, CA or Remote"
-                required
+                onChange={(placeId) => handleInputChange('location', placeId)}
+                placeholder={t('postJob.locationPlaceholder')}
+                clearLabel={formData.workplaceType === 'remote' ? t('postJob.noPlace') : undefined}
               />
             </div>
             <div>
-              <Label htmlFor="employmentType">Employment Type *</Label>
-              <Select value={formData.employmentType} onValueChange={(value) => handleInputChange('employmentType', value)}>
+              <Label htmlFor="employmentType">{t('postJob.employmentType')} *</Label>
+              <Select value={formData.employmentType} onValueChange={handleEmploymentTypeChange}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select type" />
+                  <SelectValue placeholder={t('postJob.selectType')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Full-time">Full-time</SelectItem>
-                  <SelectItem value="Part-time">Part-time</SelectItem>
-                  <SelectItem value="Contract">Contract</SelectItem>
-                  <SelectItem value="Freelance">Freelance</SelectItem>
-                  <SelectItem value="Internship">Internship</SelectItem>
+                  {EMPLOYMENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{translateValue('employmentType', type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Workplace */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="workplaceType">{t('postJob.workplaceType')} *</Label>
+              <Select value={formData.workplaceType} onValueChange={(value) => handleInputChange('workplaceType', value)}>
+                <SelectTrigger id="workplaceType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORKPLACE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{t(WORKPLACE_TYPE_LABELS[type])}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
+            {formData.workplaceType !== 'onsite' && (
+              <div>
+                <Label htmlFor="timezones">{t('postJob.timezones')}</Label>
+                <Select value="" onValueChange={addTimezone}>
+                  <SelectTrigger id="timezones">
+                    <SelectValue placeholder={t('postJob.addTimezone')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMEZONES.filter(timezone => !timezones.includes(timezone)).map(timezone => (
+                      <SelectItem key={timezone} value={timezone}>{formatTimezone(timezone)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {timezones.length > 0 ? (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {timezones.map(timezone => (
+                      <Badge key={timezone} variant="secondary" className="flex items-center gap-1">
+                        {formatTimezone(timezone)}
+                        <X
+                          className="h-3 w-3 cursor-pointer"
+                          onClick={() => removeTimezone(timezone)}
+                        />
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">{t('postJob.anyTimezone')}</p>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Salary Information */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
-              <Label htmlFor="salaryMin">Minimum Salary</Label>
+              <Label htmlFor="salaryMin">{t('postJob.salaryMin')}</Label>
               <Input
                 id="salaryMin"
                 type="number"
@@ -224,7 +410,7 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
               />
             </div>
             <div>
-              <Label htmlFor="salaryMax">Maximum Salary</Label>
+              <Label htmlFor="salaryMax">{t('postJob.salaryMax')}</Label>
               <Input
                 id="salaryMax"
                 type="number"
@@ -234,75 +420,114 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
               />
             </div>
             <div>
-              <Label htmlFor="salaryCurrency">Currency</Label>
+              <Label htmlFor="salaryCurrency">{t('postJob.currency')}</Label>
               <Select value={formData.salaryCurrency} onValueChange={(value) => handleInputChange('salaryCurrency', value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="USD">USD</SelectItem>
-                  <SelectItem value="EUR">EUR</SelectItem>
-                  <SelectItem value="GBP">GBP</SelectItem>
-                  <SelectItem value="CAD">CAD</SelectItem>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="salaryPeriod">{t('postJob.salaryPeriod')}</Label>
+              <Select value={formData.salaryPeriod} onValueChange={handleSalaryPeriodChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SALARY_PERIODS.map(period => (
+                    <SelectItem key={period} value={period}>{t(SALARY_PERIOD_LABELS[period])}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
-          <div>
-            <Label htmlFor="experienceLevel">Experience Level *</Label>
-            <Select value={formData.experienceLevel} onValueChange={(value) => handleInputChange('experienceLevel', value)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select level" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Entry Level">Entry Level</SelectItem>
-                <SelectItem value="Mid Level">Mid Level</SelectItem>
-                <SelectItem value="Senior Level">Senior Level</SelectItem>
-                <SelectItem value="Lead/Principal">Lead/Principal</SelectItem>
-                <SelectItem value="Executive">Executive</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="experienceLevel">{t('postJob.experienceLevel')} *</Label>
+              <Select value={formData.experienceLevel} onValueChange={(value) => handleInputChange('experienceLevel', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('postJob.selectLevel')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPERIENCE_LEVELS.map(level => (
+                    <SelectItem key={level} value={level}>{translateValue('experienceLevel', level)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="expiresAt">{t('postJob.expires')}</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    id="expiresAt"
+                    type="button"
+                    variant="outline"
+                    className="w-full justify-start font-normal"
+                  >
+                    <CalendarIcon className="h-4 w-4 me-2" />
+                    {expiresAt ? formatDate(expiresAt) : t('postJob.noExpiry')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={expiresAt}
+                    onSelect={setExpiresAt}
+                    disabled={{ before: addDays(new Date(), 1) }}
+                    locale={localeConfig().dateLocale}
+                    dir={localeConfig().dir}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
           </div>
 
           {/* Job Description */}
           <div>
-            <Label htmlFor="description">Job Description *</Label>
-            <Textarea
+            <Label htmlFor="description">{t('postJob.description')} *</Label>
+            <MarkdownEditor
               id="description"
               value={formData.description}
-              onChange={(e) => handleInputChange('description', e.target.value)}
-              placeholder="Describe the role, responsibilities, and what you're looking for..."
-              rows={4}
+              onChange={(value) => handleInputChange('description', value)}
+              placeholder={t('postJob.descriptionPlaceholder')}
+              rows={6}
               required
             />
           </div>
 
           <div>
-            <Label htmlFor="requirements">Requirements</Label>
-            <Textarea
+            <Label htmlFor="requirements">{t('postJob.requirements')}</Label>
+            <MarkdownEditor
               id="requirements"
               value={formData.requirements}
-              onChange={(e) => handleInputChange('requirements', e.target.value)}
-              placeholder="List the required skills, experience, and qualifications..."
-              rows={3}
+              onChange={(value) => handleInputChange('requirements', value)}
+              placeholder={t('postJob.requirementsPlaceholder')}
+              rows={4}
             />
           </div>
 
           <div>
-            <Label htmlFor="benefits">Benefits</Label>
-            <Textarea
+            <Label htmlFor="benefits">{t('postJob.benefits')}</Label>
+            <MarkdownEditor
               id="benefits"
               value={formData.benefits}
-              onChange={(e) => handleInputChange('benefits', e.target.value)}
-              placeholder="Health insurance, remote work, equity, etc..."
-              rows={2}
+              onChange={(value) => handleInputChange('benefits', value)}
+              placeholder={t('postJob.benefitsPlaceholder')}
+              rows={3}
             />
           </div>
 
           {/* Tags */}
           <div>
-            <Label htmlFor="tags">Skills & Tags</Label>
+            <Label htmlFor="tags">{t('postJob.tags')}</Label>
             <div className="space-y-2">
               <div className="flex gap-2">
                 <Input
@@ -310,10 +535,10 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
                   value={tagInput}
                   onChange={(e) => setTagInput(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  placeholder="Add skills like React, Python, etc."
+                  placeholder={t('postJob.tagsPlaceholder')}
                 />
                 <Button type="button" onClick={addTag} variant="outline">
-                  Add
+                  {t('postJob.addTag')}
                 </Button>
               </div>
               {tags.length > 0 && (
@@ -334,15 +559,15 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
 
           {/* Application Method */}
           <div className="space-y-4">
-            <Label>How should candidates apply? *</Label>
-            <div className="grid grid-cols-2 gap-4">
+            <Label>{t('postJob.applicationMethod')} *</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <Button
                 type="button"
                 variant={formData.applicationType === 'email' ? 'default' : 'outline'}
                 onClick={() => handleInputChange('applicationType', 'email')}
                 className="w-full"
               >
-                Email Application
+                {t('postJob.methodEmail')}
               </Button>
               <Button
                 type="button"
@@ -350,13 +575,27 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
                 onClick={() => handleInputChange('applicationType', 'link')}
                 className="w-full"
               >
-                External Link
+                {t('postJob.methodLink')}
+              </Button>
+              <Button
+                type="button"
+                variant={formData.applicationType === 'onsite' ? 'default' : 'outline'}
+                onClick={() => handleInputChange('applicationType', 'onsite')}
+                className="w-full"
+              >
+                {t('postJob.methodOnsite')}
               </Button>
             </div>
 
+            {formData.applicationType === 'onsite' && (
+              <p className="text-sm text-gray-600">
+                {t('postJob.onsiteHint')}
+              </p>
+            )}
+
             {formData.applicationType === 'email' && (
               <div>
-                <Label htmlFor="applicationEmail">Application Email *</Label>
+                <Label htmlFor="applicationEmail">{t('postJob.applicationEmail')} *</Label>
                 <Input
                   id="applicationEmail"
                   type="email"
@@ -370,7 +609,7 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
 
             {formData.applicationType === 'link' && (
               <div>
-                <Label htmlFor="applicationLink">Application Link *</Label>
+                <Label htmlFor="applicationLink">{t('postJob.applicationLink')} *</Label>
                 <Input
                   id="applicationLink"
                   type="url"
@@ -384,17 +623,34 @@ export function PostJobModal({ open, onOpenChange, onJobPosted }: PostJobModalPr
           </div>
 
           {/* Submit Button */}
-          <div className="flex justify-end space-x-4 pt-4">
+          {(canSaveDraft || resubmitting) && (
+            <p className="text-sm text-gray-500 text-end">{t('postJob.reviewNotice')}</p>
+          )}
+          <div className="flex justify-end space-x-4 rtl:space-x-reverse pt-4">
             <Button
               type="button"
               variant="outline"
               onClick={() => onOpenChange(false)}
               disabled={loading}
             >
-              Cancel
+              {t('common.cancel')}
             </Button>
+            {canSaveDraft && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => saveJob('draft')}
+                disabled={loading}
+              >
+                {t(isEditing ? 'postJob.saveDraft' : 'postJob.saveAsDraft')}
+              </Button>
+            )}
             <Button type="submit" disabled={loading}>
-              {loading ? 'Posting...' : 'Post Job'}
+              {loading
+                ? t('common.saving')
+                : t(resubmitting
+                  ? 'postJob.resubmit'
+                  : !canSaveDraft ? 'postJob.saveChanges' : isEditing ? 'postJob.publish' : 'postJob.submit')}
             </Button>
           </div>
         </form>
@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { REPORT_CATEGORIES, REPORT_CATEGORY_DESCRIPTIONS, REPORT_CATEGORY_LABELS } from '../lib/moderation'
+import { useI18n } from '../hooks/use-i18n'
+import type { ReportCategory } from '../types/report'
+
+interface ReportJobDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  jobTitle: string
+  // Resolves false when the report couldn't be sent, keeping the dialog open
+  onSubmit: (category: ReportCategory, details: string) => Promise<boolean>
+}
+
+export function ReportJobDialog({ open, onOpenChange, jobTitle, onSubmit }: ReportJobDialogProps) {
+  const [category, setCategory] = useState<ReportCategory | ''>('')
+  const [details, setDetails] = useState('')
+  const [sending, setSending] = useState(false)
+  const { t } = useI18n()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!category) return
+    setSending(true)
+    try {
+      if (await onSubmit(category, details)) {
+        setCategory('')
+        setDetails('')
+        onOpenChange(false)
+      }
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('report.title', { title: jobTitle })}</DialogTitle>
+          <p className="text-sm text-gray-600">{t('report.anonymous')}</p>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup value={category} onValueChange={(value) => setCategory(value as ReportCategory)}>
+            {REPORT_CATEGORIES.map(option => (
+              <div key={option} className="flex items-start gap-3">
+                <RadioGroupItem value={option} id={`report-${option}`} className="mt-1" />
+                <Label htmlFor={`report-${option}`} className="font-normal leading-snug">
+                  <span className="font-medium text-gray-900">{t(REPORT_CATEGORY_LABELS[option])}</span>
+                  <span className="block text-sm text-gray-600">{t(REPORT_CATEGORY_DESCRIPTIONS[option])}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div>
+            <Label htmlFor="reportDetails">{t('report.details')}</Label>
+            <Textarea
+              id="reportDetails"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder={t('report.detailsPlaceholder')}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!category || sending}>
+              {sending ? t('report.sending') : t('report.submit')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { useI18n } from '../hooks/use-i18n'
+
+interface SaveSearchDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Suggested from the current filters
+  defaultName: string
+  onSave: (name: string) => void
+}
+
+export function SaveSearchDialog({ open, onOpenChange, defaultName, onSave }: SaveSearchDialogProps) {
+  const [name, setName] = useState(defaultName)
+  const { t } = useI18n()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    onSave(name.trim())
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('saveSearch.title')}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="savedSearchName">{t('saveSearch.name')}</Label>
+            <Input
+              id="savedSearchName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('saveSearch.namePlaceholder')}
+              autoFocus
+            />
+            <p className="text-xs text-gray-500">
+              {t('saveSearch.hint')}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {t('board.saveSearch')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
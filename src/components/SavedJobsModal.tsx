@@ -1,63 +1,228 @@
+import { useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Card, CardContent, CardHeader } from './ui/card'
-import { MapPin, DollarSign, Clock, Trash2 } from 'lucide-react'
-import { Job, SavedJob } from '../App'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Calendar } from './ui/calendar'
+import { CompareToggle } from './CompareToggle'
+import { MapPin, DollarSign, Clock, Trash2, Folder, Bell, Calendar as CalendarIcon, X, Columns3 } from 'lucide-react'
+import { startOfDay } from 'date-fns'
+import type { Job, SavedJob, SavedJobDetails } from '../types/job'
+import { JOB_STATUS_BADGE_CLASSES, JOB_STATUS_LABELS } from '../lib/jobStatus'
+import { formatSalary } from '../lib/salary'
+import { markdownToPlainText } from '../lib/markdown'
+import { MAX_COMPARED_JOBS } from '../lib/compare'
+import {
+  SAVED_JOB_SORTS,
+  SAVED_JOB_SORT_LABELS,
+  savedJobCollections,
+  sortSavedJobs,
+  type SavedJobSort,
+  type SavedJobWithData
+} from '../lib/savedJobs'
+import { localeConfig, translateValue } from '../lib/i18n'
+import { formatJobLocation } from '../lib/location'
+import { formatDate } from '../lib/i18n/format'
+import { useI18n } from '../hooks/use-i18n'
 
 interface SavedJobsModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   savedJobs: SavedJob[]
   jobs: Job[]
+  // What salaries are compared in when sorting by salary
+  currency: string
   onJobClick: (job: Job) => void
   onUnsaveJob: (jobId: string) => void
+  onUpdateDetails: (jobId: string, details: SavedJobDetails) => Promise<boolean>
+  // Jobs picked for side-by-side comparison
+  compareIds: string[]
+  onToggleCompare: (jobId: string) => void
+  onCompare: () => void
 }
 
-export function SavedJobsModal({ 
-  open, 
-  onOpenChange, 
-  savedJobs, 
-  jobs, 
-  onJobClick, 
-  onUnsaveJob 
+// Collection filter values. Collections are prefixed so a collection the
+// user names "all" can't clash with the options around it.
+const ALL_COLLECTIONS = 'all'
+const NO_COLLECTION = 'none'
+const collectionValue = (name: string) => `collection:${name}`
+
+interface SavedJobDetailsFormProps {
+  save: SavedJob
+  collections: string[]
+  onSave: (details: SavedJobDetails) => Promise<boolean>
+}
+
+// The user's collection, apply-by reminder and private notes for one save
+function SavedJobDetailsForm({ save, collections, onSave }: SavedJobDetailsFormProps) {
+  const [collection, setCollection] = useState(save.collection ?? '')
+  const [remindAt, setRemindAt] = useState<Date | undefined>(() =>
+    save.remindAt ? new Date(save.remindAt) : undefined
+  )
+  const [notes, setNotes] = useState(save.notes ?? '')
+  const [saving, setSaving] = useState(false)
+  const { t } = useI18n()
+
+  const remindAtValue = remindAt ? startOfDay(remindAt).toISOString() : undefined
+  const changed = collection.trim() !== (save.collection ?? '') ||
+    notes.trim() !== (save.notes ?? '') ||
+    remindAtValue !== save.remindAt
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave({ collection, notes, remindAt: remindAtValue })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 border-t border-gray-100 pt-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <div className="relative">
+          <Folder className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={collection}
+            onChange={(e) => setCollection(e.target.value)}
+            placeholder={t('savedJobs.collectionPlaceholder')}
+            aria-label={t('savedJobs.collection')}
+            list={`collections-${save.jobId}`}
+            className="ps-9"
+          />
+          <datalist id={`collections-${save.jobId}`}>
+            {collections.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+        <div className="flex gap-1">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="flex-1 justify-start font-normal">
+                <CalendarIcon className="h-4 w-4 me-2" />
+                {remindAt ? t('savedJobs.applyBy', { date: formatDate(remindAt) }) : t('savedJobs.noReminder')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={remindAt}
+                onSelect={setRemindAt}
+                disabled={{ before: new Date() }}
+                locale={localeConfig().dateLocale}
+                dir={localeConfig().dir}
+              />
+            </PopoverContent>
+          </Popover>
+          {remindAt && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setRemindAt(undefined)}
+              title={t('savedJobs.clearReminder')}
+              className="text-gray-400"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder={t('savedJobs.notesPlaceholder')}
+        rows={2}
+      />
+      {changed && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? t('common.saving') : t('savedJobs.saveDetails')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function SavedJobsModal({
+  open,
+  onOpenChange,
+  savedJobs,
+  jobs,
+  currency,
+  onJobClick,
+  onUnsaveJob,
+  onUpdateDetails,
+  compareIds,
+  onToggleCompare,
+  onCompare
 }: SavedJobsModalProps) {
+  const [collectionFilter, setCollectionFilter] = useState(ALL_COLLECTIONS)
+  const [sort, setSort] = useState<SavedJobSort>('saved')
+  const { t } = useI18n()
+
   // Get the actual job data for saved jobs
   const savedJobsWithData = savedJobs
     .map(savedJob => {
       const job = jobs.find(j => j.id === savedJob.jobId)
       return job ? { ...savedJob, job } : null
     })
-    .filter(Boolean) as (SavedJob & { job: Job })[]
-
-  const formatSalary = (min?: number, max?: number, currency = 'USD') => {
-    if (!min && !max) return 'Salary not specified'
-    
-    const formatter = new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    })
+    .filter(Boolean) as SavedJobWithData[]
 
-    if (min && max) {
-      return `${formatter.format(min)} - ${formatter.format(max)}`
-    } else if (min) {
-      return `${formatter.format(min)}+`
-    } else if (max) {
-      return `Up to ${formatter.format(max)}`
-    }
-  }
+  const collections = savedJobCollections(savedJobs)
+  const shownJobs = sortSavedJobs(
+    savedJobsWithData.filter(save =>
+      collectionFilter === ALL_COLLECTIONS ||
+      (collectionFilter === NO_COLLECTION ? !save.collection : collectionValue(save.collection ?? '') === collectionFilter)
+    ),
+    sort,
+    currency
+  )
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-2xl font-bold">
-            Saved Jobs ({savedJobsWithData.length})
+            {t('savedJobs.title', { count: savedJobsWithData.length })}
           </DialogTitle>
         </DialogHeader>
 
+        {savedJobsWithData.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <Select value={collectionFilter} onValueChange={setCollectionFilter}>
+              <SelectTrigger className="w-56" aria-label={t('savedJobs.collection')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_COLLECTIONS}>{t('savedJobs.allCollections')}</SelectItem>
+                {collections.map(name => (
+                  <SelectItem key={name} value={collectionValue(name)}>{name}</SelectItem>
+                ))}
+                <SelectItem value={NO_COLLECTION}>{t('savedJobs.noCollection')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as SavedJobSort)}>
+              <SelectTrigger className="w-56" aria-label={t('savedJobs.sortBy')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SAVED_JOB_SORTS.map(option => (
+                  <SelectItem key={option} value={option}>{t(SAVED_JOB_SORT_LABELS[option])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={onCompare} disabled={compareIds.length < 2} className="ms-auto">
+              <Columns3 className="h-4 w-4 me-2" />
+              {t('compare.openCount', { count: compareIds.length })}
+            </Button>
+          </div>
+        )}
+
         <div className="space-y-4">
           {savedJobsWithData.length === 0 ? (
             <div className="text-center py-12">
@@ -65,119 +230,148 @@ export function SavedJobsModal({
                 <div className="h-12 w-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <MapPin className="h-6 w-6 text-gray-400" />
                 </div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">No saved jobs yet</h3>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">{t('savedJobs.empty.title')}</h3>
                 <p className="text-gray-600">
-                  Start browsing jobs and save the ones you're interested in to see them here.
+                  {t('savedJobs.empty.body')}
                 </p>
               </div>
             </div>
+          ) : shownJobs.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">{t('savedJobs.emptyCollection')}</p>
           ) : (
             <div className="grid grid-cols-1 gap-4">
-              {savedJobsWithData.map(({ job, createdAt }) => (
-                <Card 
-                  key={job.id} 
-                  className="hover:shadow-md transition-all duration-200 cursor-pointer border-gray-200 hover:border-primary/20"
-                >
-                  <CardHeader className="pb-3">
-                    <div className="flex items-start justify-between">
-                      <div 
-                        className="flex-1 cursor-pointer"
-                        onClick={() => {
-                          onOpenChange(false)
-                          onJobClick(job)
-                        }}
-                      >
-                        <h3 className="text-lg font-semibold text-gray-900 mb-1 hover:text-primary transition-colors">
-                          {job.title}
-                        </h3>
-                        <p className="text-primary font-medium mb-2">{job.company}</p>
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          onUnsaveJob(job.id)
-                        }}
-                        className="text-gray-400 hover:text-red-500"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardHeader>
-
-                  <CardContent 
-                    className="pt-0 cursor-pointer"
-                    onClick={() => {
-                      onOpenChange(false)
-                      onJobClick(job)
-                    }}
+              {shownJobs.map(save => {
+                const { job, createdAt } = save
+                return (
+                  <Card
+                    key={job.id}
+                    className="hover:shadow-md transition-all duration-200 border-gray-200 hover:border-primary/20"
                   >
-                    <div className="space-y-3">
-                      {/* Location and Employment Type */}
-                      <div className="flex items-center space-x-4 text-sm text-gray-600">
-                        <div className="flex items-center">
-                          <MapPin className="h-4 w-4 mr-1" />
-                          {job.location}
-                        </div>
-                        <div className="flex items-center">
-                          <Clock className="h-4 w-4 mr-1" />
-                          {job.employmentType}
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between">
+                        <div
+                          className="flex-1 cursor-pointer"
+                          onClick={() => onJobClick(job)}
+                        >
+                          <h3 className="text-lg font-semibold text-gray-900 mb-1 hover:text-primary transition-colors">
+                            {job.title}
+                          </h3>
+                          <p className="text-primary font-medium mb-2">{job.company}</p>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onUnsaveJob(job.id)
+                          }}
+                          className="text-gray-400 hover:text-red-500"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
+                    </CardHeader>
 
-                      {/* Salary */}
-                      <div className="flex items-center text-sm">
-                        <DollarSign className="h-4 w-4 mr-1 text-green-600" />
-                        <span className="font-medium text-green-600">
-                          {formatSalary(job.salaryMin, job.salaryMax, job.salaryCurrency)}
-                        </span>
-                      </div>
+                    <CardContent className="pt-0 space-y-3">
+                      <div className="space-y-3 cursor-pointer" onClick={() => onJobClick(job)}>
+                        {/* Location and Employment Type */}
+                        <div className="flex items-center space-x-4 rtl:space-x-reverse text-sm text-gray-600">
+                          <div className="flex items-center">
+                            <MapPin className="h-4 w-4 me-1" />
+                            {formatJobLocation(job)}
+                          </div>
+                          <div className="flex items-center">
+                            <Clock className="h-4 w-4 me-1" />
+                            {translateValue('employmentType', job.employmentType)}
+                          </div>
+                        </div>
 
-                      {/* Description Preview */}
-                      <p className="text-gray-600 text-sm line-clamp-2">
-                        {job.description}
-                      </p>
-
-                      {/* Tags */}
-                      {job.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-2">
-                          {job.tags.slice(0, 4).map((tag, index) => (
-                            <Badge key={index} variant="secondary" className="text-xs">
-                              {tag}
-                            </Badge>
-                          ))}
-                          {job.tags.length > 4 && (
+                        {/* Salary */}
+                        <div className="flex items-center text-sm">
+                          <DollarSign className="h-4 w-4 me-1 text-green-600" />
+                          <span className="font-medium text-green-600">
+                            {formatSalary(job)}
+                          </span>
+                        </div>
+
+                        {/* Description Preview */}
+                        <p className="text-gray-600 text-sm line-clamp-2">
+                          {markdownToPlainText(job.description)}
+                        </p>
+
+                        {/* Tags */}
+                        {job.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {job.tags.slice(0, 4).map((tag, index) => (
+                              <Badge key={index} variant="secondary" className="text-xs">
+                                {tag}
+                              </Badge>
+                            ))}
+                            {job.tags.length > 4 && (
+                              <Badge variant="outline" className="text-xs">
+                                {t('common.moreTags', { count: job.tags.length - 4 })}
+                              </Badge>
+                            )}
+                          </div>
+                        )}
+
+                        {/* Experience Level and Save Date */}
+                        <div className="flex items-center justify-between pt-2">
+                          <div className="flex flex-wrap items-center gap-2">
                             <Badge variant="outline" className="text-xs">
-                              +{job.tags.length - 4} more
+                              {translateValue('experienceLevel', job.experienceLevel)}
                             </Badge>
-                          )}
+                            {job.status !== 'active' && (
+                              <Badge variant="outline" className={`text-xs ${JOB_STATUS_BADGE_CLASSES[job.status]}`}>
+                                {t(JOB_STATUS_LABELS[job.status])}
+                              </Badge>
+                            )}
+                            {save.collection && (
+                              <Badge variant="secondary" className="text-xs">
+                                <Folder className="h-3 w-3 me-1" />
+                                {save.collection}
+                              </Badge>
+                            )}
+                            {save.remindAt && (
+                              <Badge variant="outline" className="text-xs bg-yellow-50 text-yellow-700 border-yellow-200">
+                                <Bell className="h-3 w-3 me-1" />
+                                {t('savedJobs.applyBy', { date: formatDate(save.remindAt) })}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <CompareToggle
+                              jobId={job.id}
+                              checked={compareIds.includes(job.id)}
+                              disabled={!compareIds.includes(job.id) && compareIds.length >= MAX_COMPARED_JOBS}
+                              onToggle={() => onToggleCompare(job.id)}
+                            />
+                            <span className="text-xs text-gray-500">
+                              {t('savedJobs.savedOn', { date: formatDate(createdAt) })}
+                            </span>
+                          </div>
                         </div>
-                      )}
-
-                      {/* Experience Level and Save Date */}
-                      <div className="flex items-center justify-between pt-2">
-                        <Badge variant="outline" className="text-xs">
-                          {job.experienceLevel}
-                        </Badge>
-                        <span className="text-xs text-gray-500">
-                          Saved on {new Date(createdAt).toLocaleDateString()}
-                        </span>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+
+                      <SavedJobDetailsForm
+                        save={save}
+                        collections={collections}
+                        onSave={(details) => onUpdateDetails(job.id, details)}
+                      />
+                    </CardContent>
+                  </Card>
+                )
+              })}
             </div>
           )}
         </div>
 
         <div className="flex justify-end pt-4">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Close
+            {t('common.close')}
           </Button>
         </div>
       </DialogContent>
     </Dialog>
   )
-}
\ No newline at end of file
+}
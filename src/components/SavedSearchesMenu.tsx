@@ -0,0 +1,86 @@
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { SearchCheck, X } from 'lucide-react'
+import { useI18n } from '../hooks/use-i18n'
+import type { SavedSearch } from '../types/savedSearch'
+
+interface SavedSearchesMenuProps {
+  savedSearches: SavedSearch[]
+  // Jobs posted since each search was last opened, by search id
+  newCounts: Record<string, number>
+  onOpenSearch: (search: SavedSearch) => void
+  onDeleteSearch: (search: SavedSearch) => void
+}
+
+export function SavedSearchesMenu({ savedSearches, newCounts, onOpenSearch, onDeleteSearch }: SavedSearchesMenuProps) {
+  const { t } = useI18n()
+  const totalNew = Object.values(newCounts).reduce((sum, count) => sum + count, 0)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SearchCheck className="h-4 w-4 me-2" />
+          {t('savedSearches.button')}
+          {totalNew > 0 && (
+            <Badge 
+              variant="secondary" 
+              className="ms-2 bg-primary text-white text-xs px-1.5 py-0.5"
+            >
+              {totalNew}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>{t('savedSearches.title')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {savedSearches.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500">
+            {t('savedSearches.empty')}
+          </p>
+        ) : (
+          savedSearches.map(search => {
+            const count = newCounts[search.id] ?? 0
+            return (
+              <DropdownMenuItem
+                key={search.id}
+                onClick={() => onOpenSearch(search)}
+                className="flex items-center justify-between gap-2"
+              >
+                <span className="truncate">{search.name}</span>
+                <span className="flex items-center gap-1">
+                  {count > 0 && (
+                    <Badge variant="secondary" className="bg-primary/10 text-primary text-xs">
+                      {t('savedSearches.newCount', { count })}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+                    title={t('savedSearches.delete')}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDeleteSearch(search)
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </span>
+              </DropdownMenuItem>
+            )
+          })
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
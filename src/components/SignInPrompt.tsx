@@ -0,0 +1,38 @@
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { LogIn } from 'lucide-react'
+import { SIGN_IN_REASONS, type PendingAction } from '../lib/pendingAction'
+import { useI18n } from '../hooks/use-i18n'
+
+interface SignInPromptProps {
+  // The action that needs an account; the prompt is closed while it's null
+  action: PendingAction | null
+  onOpenChange: (open: boolean) => void
+  onSignIn: (action: PendingAction) => void
+}
+
+// Shown when a visitor browsing anonymously tries to do something that
+// needs an account
+export function SignInPrompt({ action, onOpenChange, onSignIn }: SignInPromptProps) {
+  const { t } = useI18n()
+
+  return (
+    <Dialog open={action !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action ? t(SIGN_IN_REASONS[action.kind]) : ''}</DialogTitle>
+          <p className="text-sm text-gray-600">{t('login.body')}</p>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => action && onSignIn(action)} className="bg-primary hover:bg-primary/90">
+            <LogIn className="h-4 w-4 me-2" />
+            {t('login.signIn')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
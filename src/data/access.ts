@@ -0,0 +1,56 @@
+import { blink } from '../blink/client'
+import { hasPermission } from '../lib/permissions'
+import type { Permission, UserProfile } from '../types/user'
+import { NotFoundError, PermissionError } from './errors'
+
+// Write checks for the repositories. App registers the signed-in profile
+// once it has loaded; every write then checks it against the row's owner or
+// the permission it needs.
+
+let currentUser: UserProfile | null = null
+
+export function setCurrentUser(user: UserProfile | null) {
+  currentUser = user
+}
+
+export function requireUser(): UserProfile {
+  if (!currentUser) throw new PermissionError('write without signing in')
+  return currentUser
+}
+
+export function requirePermission(permission: Permission): UserProfile {
+  const user = requireUser()
+  if (!hasPermission(user, permission)) throw new PermissionError(`use ${permission}`)
+  return user
+}
+
+// Whether the signed-in user owns the row or holds `override`. For reads
+// that leave out what the user can't see rather than failing.
+export const ownsRow = (ownerId: string, override?: Permission) =>
+  currentUser !== null && (currentUser.id === ownerId || Boolean(override && hasPermission(currentUser, override)))
+
+// Only the owner may write to their rows, unless `override` grants it to
+// staff as well (moderators taking a posting down, for example)
+export function requireOwner(ownerId: string, override?: Permission): UserProfile {
+  const user = requireUser()
+  if (!ownsRow(ownerId, override)) {
+    throw new PermissionError('change another user\'s data')
+  }
+  return user
+}
+
+// For writes that only have ids to go on: loads each row's owner first
+export async function requireRowOwner(table: string, ids: string | string[], override?: Permission): Promise<UserProfile> {
+  const idList = typeof ids === 'string' ? [ids] : ids
+  const user = requireUser()
+  const rows = await blink.db.table<{ id: string; userId: string }>(table).list({
+    where: { id: { in: idList } },
+    select: ['id', 'userId']
+  })
+  for (const id of idList) {
+    const row = rows.find(candidate => candidate.id === id)
+    if (!row) throw new NotFoundError(table, id)
+    requireOwner(row.userId, override)
+  }
+  return user
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { isAcceptingApplications } from '../lib/jobStatus'
+import type { Application, ApplicationInput, ApplicationStage } from '../types/application'
+import { ownsRow, requireOwner, requireRowOwner } from './access'
+import { NotFoundError, PermissionError } from './errors'
+import { jobsRepository } from './jobsRepository'
+import { createId, jsonArray, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'applications'
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024
+export const RESUME_ACCEPT = '.pdf,.doc,.docx,.txt,.rtf'
+
+const stageSchema = z.enum(['applied', 'screening', 'interview', 'offer', 'hired', 'rejected'])
+
+export const applicationRowSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  coverLetter: optionalString,
+  resumePath: optionalString,
+  // Resumes uploaded before resumePath existed only have their public URL
+  resumeUrl: optionalString,
+  resumeFileName: optionalString,
+  stage: stageSchema.nullish().transform(value => value ?? 'applied'),
+  stageHistory: jsonArray(z.object({ stage: stageSchema, changedAt: z.string() })),
+  createdAt: z.string()
+}).transform(({ resumeUrl, ...application }) => ({
+  ...application,
+  resumePath: application.resumePath ?? resumeUrl,
+  // Every application starts in 'applied', even if the history wasn't recorded
+  stageHistory: application.stageHistory.length > 0
+    ? application.stageHistory
+    : [{ stage: 'applied' as const, changedAt: application.createdAt }]
+}))
+
+export type ApplicationRow = z.input<typeof applicationRowSchema>
+
+const applicationsTable = () => blink.db.table<ApplicationRow>(TABLE)
+
+export const toApplication = (row: unknown): Application => parseRow(TABLE, applicationRowSchema, row)
+
+const isLegacyResumeUrl = (path: string) => /^https?:\/\//.test(path)
+
+// Resumes go in a random folder so their storage URL can't be worked out
+// from the job or application, and only the path is kept: the URL itself is
+// never stored or shown. Storage corrects the extension to the file's real
+// type, so the stored name is read back from the URL.
+async function uploadResume(applicationId: string, resume: File): Promise<string> {
+  const extension = resume.name.split('.').pop()
+  const folder = `resumes/${crypto.randomUUID()}`
+  const { publicUrl } = await blink.storage.upload(resume, `${folder}/${applicationId}.${extension}`)
+  const fileName = decodeURIComponent(new URL(publicUrl).pathname.split('/').pop() ?? '')
+  return `${folder}/${fileName || `${applicationId}.${extension}`}`
+}
+
+export const applicationsRepository = {
+  // Candidates apply once per job, and only to live postings that take
+  // applications on the board. The resume (if any) is uploaded before the
+  // application is stored.
+  create(userId: string, jobId: string, input: ApplicationInput, resume?: File): Promise<Application> {
+    return withDataAccess('submit application', async () => {
+      requireOwner(userId)
+      const job = await jobsRepository.get(jobId)
+      if (job.applicationType !== 'onsite' || !isAcceptingApplications(job.status)) {
+        throw new PermissionError('apply to a job that isn\'t taking applications here')
+      }
+      const [existing] = await applicationsTable().list({ where: { jobId, userId }, limit: 1 })
+      if (existing) throw new PermissionError('apply to the same job twice')
+
+      const id = createId('app')
+      const resumePath = resume ? await uploadResume(id, resume) : null
+
+      const row = await applicationsTable().create({
+        id,
+        jobId,
+        userId,
+        name: input.name,
+        email: input.email,
+        coverLetter: input.coverLetter || null,
+        resumePath,
+        resumeFileName: resume?.name ?? null,
+        stage: 'applied',
+        stageHistory: JSON.stringify([{ stage: 'applied', changedAt: new Date().toISOString() }])
+      })
+      return toApplication(row)
+    })
+  },
+
+  // Applications received for a set of the caller's jobs, newest first
+  listForJobs(jobIds: string[]): Promise<Application[]> {
+    if (jobIds.length === 0) return Promise.resolve([])
+    return withDataAccess('load applications', async () => {
+      await requireRowOwner('jobs', jobIds)
+      const rows = await applicationsTable().list({
+        where: { jobId: { in: jobIds } },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, applicationRowSchema, rows)
+    })
+  },
+
+  // Records the move with a timestamp so both sides can see the timeline.
+  // Only the job's poster moves its applications.
+  moveToStage(application: Application, stage: ApplicationStage): Promise<Application> {
+    return withDataAccess('move application', async () => {
+      await requireRowOwner('jobs', application.jobId)
+      const changedAt = new Date().toISOString()
+      const row = await applicationsTable().update(application.id, {
+        stage,
+        stageHistory: JSON.stringify([...application.stageHistory, { stage, changedAt }])
+      })
+      return toApplication(row)
+    })
+  },
+
+  // A short-lived download link for an application's resume. Only the
+  // candidate and the job's poster can get one.
+  resumeLink(applicationId: string): Promise<string> {
+    return withDataAccess('open resume', async () => {
+      const row = await applicationsTable().get(applicationId)
+      if (!row) throw new NotFoundError(TABLE, applicationId)
+      const application = toApplication(row)
+      if (!ownsRow(application.userId)) await requireRowOwner('jobs', application.jobId)
+      if (!application.resumePath) throw new NotFoundError('resumes', applicationId)
+      if (isLegacyResumeUrl(application.resumePath)) return application.resumePath
+      const { downloadUrl } = await blink.storage.download(application.resumePath, {
+        filename: application.resumeFileName
+      })
+      return downloadUrl
+    })
+  },
+
+  // Only called when deleting the job, which checks who's deleting it. The
+  // uploaded resumes go too; legacy ones are only known by URL and are left.
+  removeForJob(jobId: string): Promise<void> {
+    return withDataAccess('remove applications for job', async () => {
+      const applications = parseRows(TABLE, applicationRowSchema, await applicationsTable().list({ where: { jobId } }))
+      const resumePaths = applications.flatMap(({ resumePath }) =>
+        resumePath && !isLegacyResumeUrl(resumePath) ? [resumePath] : []
+      )
+      if (resumePaths.length > 0) await blink.storage.remove(...resumePaths)
+      await applicationsTable().deleteMany({ where: { jobId } })
+    })
+  },
+
+  listForCandidate(userId: string): Promise<Application[]> {
+    return withDataAccess('load your applications', async () => {
+      const rows = await applicationsTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, applicationRowSchema, rows)
+    })
+  }
+}
@@ -0,0 +1,142 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { containsPattern, LIKE_ESCAPE } from '../lib/sql'
+import type { Company, CompanyInput } from '../types/company'
+import { requireOwner, requirePermission, requireRowOwner, requireUser } from './access'
+import { NotFoundError } from './errors'
+import { jobsRepository } from './jobsRepository'
+import { createId, optionalString, parseRow, parseRows, sqliteBoolean, withDataAccess } from './rows'
+
+const TABLE = 'companies'
+
+export const MAX_LOGO_BYTES = 1024 * 1024
+export const LOGO_ACCEPT = 'image/png,image/jpeg,image/webp,image/svg+xml'
+
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-1000', '1001+'] as const
+
+export const companyRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  logoUrl: optionalString,
+  website: optionalString,
+  size: z.enum(COMPANY_SIZES).nullish().transform(value => value ?? undefined),
+  industry: optionalString,
+  description: optionalString,
+  verified: sqliteBoolean,
+  userId: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+})
+
+export type CompanyRow = z.input<typeof companyRowSchema>
+
+const companiesTable = () => blink.db.table<CompanyRow>(TABLE)
+
+export const toCompany = (row: unknown): Company => parseRow(TABLE, companyRowSchema, row)
+
+const toCompanyRow = (input: CompanyInput): Partial<CompanyRow> => ({
+  name: input.name.trim(),
+  website: input.website || null,
+  size: input.size ?? null,
+  industry: input.industry || null,
+  description: input.description || null
+})
+
+async function uploadLogo(companyId: string, logo: File): Promise<string> {
+  const extension = logo.name.split('.').pop()
+  const { publicUrl } = await blink.storage.upload(
+    logo,
+    `company-logos/${companyId}.${extension}`,
+    { upsert: true }
+  )
+  return publicUrl
+}
+
+export const companiesRepository = {
+  // The signed-in poster's companies whose name contains `query`, for
+  // autocomplete. Postings can only be linked to profiles their poster owns.
+  searchOwn(query: string, limit = 8): Promise<Company[]> {
+    return withDataAccess('search companies', async () => {
+      const user = requireUser()
+      const { rows } = await blink.db.sql<CompanyRow>(
+        `SELECT * FROM ${TABLE} WHERE user_id = ? AND name LIKE ? ${LIKE_ESCAPE} ORDER BY name ASC LIMIT ?`,
+        [user.id, containsPattern(query.trim()), limit]
+      )
+      return parseRows(TABLE, companyRowSchema, rows)
+    })
+  },
+
+  // The poster's profile with exactly this name, ignoring case
+  findByName(userId: string, name: string): Promise<Company | undefined> {
+    return withDataAccess('find company', async () => {
+      requireOwner(userId)
+      const { rows } = await blink.db.sql<CompanyRow>(
+        `SELECT * FROM ${TABLE} WHERE user_id = ? AND name = ? COLLATE NOCASE LIMIT 1`,
+        [userId, name.trim()]
+      )
+      return rows.length > 0 ? toCompany(rows[0]) : undefined
+    })
+  },
+
+  get(id: string): Promise<Company> {
+    return withDataAccess('load company', async () => {
+      const row = await companiesTable().get(id)
+      if (!row) throw new NotFoundError(TABLE, id)
+      return toCompany(row)
+    })
+  },
+
+  listByIds(ids: string[]): Promise<Company[]> {
+    if (ids.length === 0) return Promise.resolve([])
+    return withDataAccess('load companies', async () => {
+      const rows = await companiesTable().list({ where: { id: { in: ids } } })
+      return parseRows(TABLE, companyRowSchema, rows)
+    })
+  },
+
+  // New profiles start unverified
+  create(userId: string, input: CompanyInput, logo?: File): Promise<Company> {
+    return withDataAccess('create company', async () => {
+      requirePermission('postJobs')
+      requireOwner(userId)
+      const id = createId('company')
+      const row = await companiesTable().create({
+        ...toCompanyRow(input),
+        id,
+        logoUrl: logo ? await uploadLogo(id, logo) : null,
+        verified: false,
+        userId
+      })
+      return toCompany(row)
+    })
+  },
+
+  // A new logo replaces the old one. Renaming also renames the company on
+  // its postings. Admins can edit any profile.
+  update(company: Company, input: CompanyInput, logo?: File): Promise<Company> {
+    return withDataAccess('update company', async () => {
+      await requireRowOwner(TABLE, company.id, 'verifyCompanies')
+      const row = await companiesTable().update(company.id, {
+        ...toCompanyRow(input),
+        ...(logo && { logoUrl: await uploadLogo(company.id, logo) }),
+        updatedAt: new Date().toISOString()
+      })
+      const updated = toCompany(row)
+      if (updated.name !== company.name) {
+        await jobsRepository.renameCompany(company.id, updated.name)
+      }
+      return updated
+    })
+  },
+
+  setVerified(id: string, verified: boolean): Promise<Company> {
+    return withDataAccess('verify company', async () => {
+      requirePermission('verifyCompanies')
+      const row = await companiesTable().update(id, {
+        verified,
+        updatedAt: new Date().toISOString()
+      })
+      return toCompany(row)
+    })
+  }
+}
@@ -0,0 +1,48 @@
+// Base class for everything thrown by the repositories, so callers can tell
+// data-layer failures apart from programming errors.
+export class DataAccessError extends Error {
+  readonly cause?: unknown
+
+  constructor(message: string, cause?: unknown) {
+    super(message)
+    this.name = 'DataAccessError'
+    this.cause = cause
+  }
+}
+
+// A row came back from the database in a shape we can't map to a model
+export class RowValidationError extends DataAccessError {
+  readonly table: string
+  readonly issues: string[]
+
+  constructor(table: string, issues: string[]) {
+    super(`Invalid ${table} row: ${issues.join('; ')}`)
+    this.name = 'RowValidationError'
+    this.table = table
+    this.issues = issues
+  }
+}
+
+export class NotFoundError extends DataAccessError {
+  readonly table: string
+  readonly id: string
+
+  constructor(table: string, id: string) {
+    super(`No ${table} row with id ${id}`)
+    this.name = 'NotFoundError'
+    this.table = table
+    this.id = id
+  }
+}
+
+// The signed-in user isn't allowed to make a change. The UI hides what a
+// user can't do, so this usually means their roles changed in another tab.
+export class PermissionError extends DataAccessError {
+  readonly action: string
+
+  constructor(action: string) {
+    super(`Not allowed to ${action}`)
+    this.name = 'PermissionError'
+    this.action = action
+  }
+}
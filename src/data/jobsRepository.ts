@@ -0,0 +1,420 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import {
+  buildJobsOrder,
+  buildJobsWhere,
+  EMPTY_JOB_FILTERS,
+  JOBS_PAGE_SIZE,
+  SEARCH_POOL_SIZE,
+  type JobFilters
+} from '../lib/jobFilters'
+import { allOf, anyOf, inList, sql, type SqlFragment } from '../lib/sql'
+import { defaultExpiry, isPastExpiry } from '../lib/jobStatus'
+import { detectFlags, needsReview, REPORT_HIDE_THRESHOLD } from '../lib/moderation'
+import type { Job, JobInput, JobStatus } from '../types/job'
+import type { Permission } from '../types/user'
+import { ownsRow, requireOwner, requirePermission, requireRowOwner, requireUser } from './access'
+import { NotFoundError } from './errors'
+import { savedJobsRepository } from './savedJobsRepository'
+import { applicationsRepository } from './applicationsRepository'
+import { reportsRepository } from './reportsRepository'
+import { createId, jsonArray, jsonStringArray, optionalNumber, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'jobs'
+
+export const jobRowSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  company: z.string(),
+  companyId: optionalString,
+  location: z.string(),
+  city: optionalString,
+  region: optionalString,
+  country: optionalString,
+  latitude: optionalNumber,
+  longitude: optionalNumber,
+  workplaceType: z.enum(['onsite', 'hybrid', 'remote']).nullish(),
+  timezones: jsonStringArray,
+  salaryMin: optionalNumber,
+  salaryMax: optionalNumber,
+  salaryCurrency: optionalString.transform(value => value ?? 'USD'),
+  salaryPeriod: z.enum(['hour', 'day', 'month', 'year']).nullish().transform(value => value ?? 'year'),
+  description: z.string(),
+  requirements: optionalString,
+  benefits: optionalString,
+  employmentType: z.string(),
+  experienceLevel: z.string(),
+  applicationType: z.enum(['email', 'link', 'onsite']),
+  applicationEmail: optionalString,
+  applicationLink: optionalString,
+  tags: jsonStringArray,
+  // Rows created before the lifecycle existed have no status, and 'closed'
+  // was the original name for a paused posting
+  status: z
+    .enum(['draft', 'pending', 'rejected', 'active', 'paused', 'expired', 'filled', 'closed'])
+    .nullish()
+    .transform((value): JobStatus => (value === 'closed' ? 'paused' : value ?? 'active')),
+  expiresAt: optionalString,
+  moderationFlags: jsonArray(z.object({
+    kind: z.enum(['suspiciousLink', 'freeMailAddress', 'salaryOutlier', 'bannedWord']),
+    detail: z.string()
+  })),
+  approvedAt: optionalString,
+  reviewedBy: optionalString,
+  rejectionReason: optionalString,
+  userId: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}).transform(job => ({
+  ...job,
+  // Older postings only have free text, where remote work was written into the location
+  workplaceType: job.workplaceType ?? (/\bremote\b/i.test(job.location) ? 'remote' as const : 'onsite' as const),
+  status: job.status === 'active' && isPastExpiry(job.expiresAt) ? 'expired' as const : job.status
+}))
+
+export type JobRow = z.input<typeof jobRowSchema>
+
+const jobsTable = () => blink.db.table<JobRow>(TABLE)
+
+export const toJob = (row: unknown): Job => parseRow(TABLE, jobRowSchema, row)
+
+export const toJobRow = (input: JobInput): Partial<JobRow> => ({
+  title: input.title,
+  company: input.company,
+  companyId: input.companyId ?? null,
+  location: input.location,
+  city: input.city ?? null,
+  region: input.region ?? null,
+  country: input.country ?? null,
+  latitude: input.latitude ?? null,
+  longitude: input.longitude ?? null,
+  workplaceType: input.workplaceType,
+  // On-site postings have no timezone restriction to store
+  timezones: JSON.stringify(input.workplaceType === 'onsite' ? [] : input.timezones),
+  salaryMin: input.salaryMin ?? null,
+  salaryMax: input.salaryMax ?? null,
+  salaryCurrency: input.salaryCurrency,
+  salaryPeriod: input.salaryPeriod,
+  description: input.description,
+  requirements: input.requirements || null,
+  benefits: input.benefits || null,
+  employmentType: input.employmentType,
+  experienceLevel: input.experienceLevel,
+  applicationType: input.applicationType,
+  applicationEmail: input.applicationType === 'email' ? input.applicationEmail : null,
+  applicationLink: input.applicationType === 'link' ? input.applicationLink : null,
+  tags: JSON.stringify(input.tags),
+  expiresAt: input.expiresAt ?? null,
+  moderationFlags: JSON.stringify(detectFlags(input))
+})
+
+// Postings that haven't been approved for the board, or were taken off it
+// for review. Only their poster and moderators can load them.
+const UNPUBLISHED_STATUSES: JobStatus[] = ['draft', 'pending', 'rejected']
+
+// What a poster can set on their own approved posting
+const POSTER_STATUSES: JobStatus[] = ['paused', 'filled']
+
+const isVisible = (job: Job) => !UNPUBLISHED_STATUSES.includes(job.status) || ownsRow(job.userId, 'reviewJobs')
+
+const NEWEST_FIRST = sql('created_at DESC')
+
+interface JobQuery {
+  orderBy?: SqlFragment
+  limit?: number
+  offset?: number
+}
+
+// Jobs matching a SQL condition. The board's filters nest ORs inside ANDs,
+// which blink's `where` objects can't express, so these queries go through
+// blink.db.sql instead.
+async function selectJobs(where: SqlFragment, { orderBy = NEWEST_FIRST, limit, offset }: JobQuery = {}): Promise<Job[]> {
+  const page = limit === undefined ? sql('') : sql('LIMIT ? OFFSET ?', limit, offset ?? 0)
+  const { rows } = await blink.db.sql<JobRow>(
+    `SELECT * FROM ${TABLE} WHERE ${where.sql} ORDER BY ${orderBy.sql} ${page.sql}`,
+    [...where.params, ...orderBy.params, ...page.params]
+  )
+  return parseRows(TABLE, jobRowSchema, rows)
+}
+
+// Postings can only be linked to a company profile their poster owns
+async function requireOwnCompany(input: JobInput, current?: Job) {
+  if (input.companyId && input.companyId !== current?.companyId) {
+    await requireRowOwner('companies', input.companyId)
+  }
+}
+
+// Loads a job for a write, checking the caller may make it
+async function ownedJob(id: string, override?: Permission): Promise<Job> {
+  const row = await jobsTable().get(id)
+  if (!row) throw new NotFoundError(TABLE, id)
+  const job = toJob(row)
+  requireOwner(job.userId, override)
+  return job
+}
+
+export const jobsRepository = {
+  list(filters: JobFilters, page: number, pageSize = JOBS_PAGE_SIZE): Promise<Job[]> {
+    return withDataAccess('load jobs', () =>
+      selectJobs(buildJobsWhere(filters), {
+        orderBy: buildJobsOrder(filters),
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      })
+    )
+  },
+
+  count(filters: JobFilters): Promise<number> {
+    return withDataAccess('count jobs', async () => {
+      const where = buildJobsWhere(filters)
+      const { rows } = await blink.db.sql<{ total: number | string }>(
+        `SELECT COUNT(*) AS total FROM ${TABLE} WHERE ${where.sql}`,
+        where.params
+      )
+      return Number(rows[0]?.total ?? 0)
+    })
+  },
+
+  // The newest jobs a text search could match, for it to rank client-side
+  listSearchPool(filters: JobFilters, limit = SEARCH_POOL_SIZE): Promise<Job[]> {
+    return withDataAccess('load jobs', () => selectJobs(buildJobsWhere(filters), { limit }))
+  },
+
+  // Jobs matching the structured filters that reached the board after
+  // `since`: approved since then, or posted since then before moderation
+  // existed
+  listSince(filters: JobFilters, since: string, limit = 100): Promise<Job[]> {
+    return withDataAccess('load new jobs', () =>
+      selectJobs(
+        allOf(
+          buildJobsWhere(filters),
+          anyOf(sql('approved_at > ?', since), sql('approved_at IS NULL AND created_at > ?', since))
+        ),
+        { limit }
+      )
+    )
+  },
+
+  // Which of the given jobs still match the filters, so the board can drop
+  // the ones deleted, closed or edited out of the results
+  listMatchingIds(filters: JobFilters, ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return Promise.resolve([])
+    return withDataAccess('check listed jobs', async () => {
+      const where = allOf(buildJobsWhere(filters), inList('id', ids))
+      const { rows } = await blink.db.sql<{ id: string }>(`SELECT id FROM ${TABLE} WHERE ${where.sql}`, where.params)
+      return rows.map(row => row.id)
+    })
+  },
+
+  // The given jobs that were edited after `since`
+  listUpdatedSince(ids: string[], since: string): Promise<Job[]> {
+    if (ids.length === 0) return Promise.resolve([])
+    return withDataAccess('load updated jobs', () =>
+      selectJobs(allOf(inList('id', ids), sql('updated_at > ?', since)))
+    )
+  },
+
+  // A company's postings that are currently on the board, newest first
+  listForCompany(companyId: string): Promise<Job[]> {
+    return withDataAccess('load company jobs', () =>
+      selectJobs(allOf(buildJobsWhere(EMPTY_JOB_FILTERS), sql('company_id = ?', companyId)))
+    )
+  },
+
+  listByIds(ids: string[]): Promise<Job[]> {
+    if (ids.length === 0) return Promise.resolve([])
+    return withDataAccess('load jobs by id', async () => {
+      const rows = await jobsTable().list({ where: { id: { in: ids } } })
+      return parseRows(TABLE, jobRowSchema, rows).filter(isVisible)
+    })
+  },
+
+  // Unpublished postings look missing to anyone who can't see them
+  get(id: string): Promise<Job> {
+    return withDataAccess('load job', async () => {
+      const row = await jobsTable().get(id)
+      const job = row ? toJob(row) : null
+      if (!job || !isVisible(job)) throw new NotFoundError(TABLE, id)
+      return job
+    })
+  },
+
+  // Publishing a new posting puts it in the moderation queue
+  create(userId: string, input: JobInput, intent: 'draft' | 'publish' = 'publish'): Promise<Job> {
+    return withDataAccess('create job', async () => {
+      requirePermission('postJobs')
+      requireOwner(userId)
+      await requireOwnCompany(input)
+      const row = await jobsTable().create({
+        ...toJobRow(input),
+        id: createId('job'),
+        status: intent === 'draft' ? 'draft' : 'pending',
+        userId
+      })
+      return toJob(row)
+    })
+  },
+
+  // All of a poster's jobs, whatever their status
+  listForUser(userId: string): Promise<Job[]> {
+    return withDataAccess('load your postings', async () => {
+      const rows = await jobsTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, jobRowSchema, rows)
+    })
+  },
+
+  // Pass 'publish' to submit a draft or rejected posting for review while
+  // saving it. A live posting edited into something newly flagged goes back
+  // to the queue.
+  update(id: string, input: JobInput, intent?: 'publish'): Promise<Job> {
+    return withDataAccess('update job', async () => {
+      const current = await ownedJob(id)
+      await requireOwnCompany(input, current)
+      const newlyFlagged = detectFlags(input).some(flag =>
+        !current.moderationFlags.some(old => old.kind === flag.kind && old.detail === flag.detail)
+      )
+      let status: JobStatus | undefined
+      if (intent === 'publish') {
+        status = needsReview(current) ? 'pending' : 'active'
+      } else if (current.status === 'active' && newlyFlagged) {
+        status = 'pending'
+      }
+      const row = await jobsTable().update(id, {
+        ...toJobRow(input),
+        ...(status && { status }),
+        ...(status === 'pending' && { approvedAt: null, rejectionReason: null }),
+        updatedAt: new Date().toISOString()
+      })
+      return toJob(row)
+    })
+  },
+
+  // Posters can pause or fill their postings once approved; every other
+  // change of status is a moderator's, so nothing skips the queue
+  setStatus(id: string, status: JobStatus): Promise<Job> {
+    return withDataAccess('update job status', async () => {
+      const current = await ownedJob(id, 'reviewJobs')
+      const posterChange = POSTER_STATUSES.includes(status) && !UNPUBLISHED_STATUSES.includes(current.status)
+      if (!posterChange) requirePermission('reviewJobs')
+      const row = await jobsTable().update(id, {
+        status,
+        updatedAt: new Date().toISOString()
+      })
+      return toJob(row)
+    })
+  },
+
+  // The moderation queue, oldest first
+  listPending(): Promise<Job[]> {
+    return withDataAccess('load the moderation queue', async () => {
+      const rows = await jobsTable().list({
+        where: { status: 'pending' },
+        orderBy: { createdAt: 'asc' }
+      })
+      return parseRows(TABLE, jobRowSchema, rows)
+    })
+  },
+
+  approve(id: string): Promise<Job> {
+    return withDataAccess('approve job', async () => {
+      const moderator = requirePermission('reviewJobs')
+      const now = new Date().toISOString()
+      const row = await jobsTable().update(id, {
+        status: 'active',
+        approvedAt: now,
+        reviewedBy: moderator.id,
+        rejectionReason: null,
+        updatedAt: now
+      })
+      return toJob(row)
+    })
+  },
+
+  // Also takes down live postings, so the approval is cleared and the poster
+  // has to go through the queue again to republish
+  reject(id: string, reason: string): Promise<Job> {
+    return withDataAccess('reject job', async () => {
+      const moderator = requirePermission('reviewJobs')
+      const row = await jobsTable().update(id, {
+        status: 'rejected',
+        approvedAt: null,
+        reviewedBy: moderator.id,
+        rejectionReason: reason.trim(),
+        updatedAt: new Date().toISOString()
+      })
+      return toJob(row)
+    })
+  },
+
+  // Takes a live posting off the board and back to the moderation queue once
+  // enough people have reported it. Any reporter can call this: it checks
+  // the reports rather than who's asking. Returns the job if it was hidden.
+  hideIfReported(id: string): Promise<Job | null> {
+    return withDataAccess('hide reported job', async () => {
+      requireUser()
+      if (await reportsRepository.countOpen(id) < REPORT_HIDE_THRESHOLD) return null
+      const current = await jobsTable().get(id)
+      if (!current || toJob(current).status !== 'active') return null
+      const row = await jobsTable().update(id, {
+        status: 'pending',
+        approvedAt: null,
+        updatedAt: new Date().toISOString()
+      })
+      return toJob(row)
+    })
+  },
+
+  // Keeps the copied company name in step with its profile. Only called by
+  // companiesRepository.update, which checks the caller owns the profile.
+  renameCompany(companyId: string, company: string): Promise<void> {
+    return withDataAccess('rename company on jobs', async () => {
+      const rows = await jobsTable().list({ where: { companyId }, select: ['id'] })
+      if (rows.length === 0) return
+      await jobsTable().updateMany(rows.map(row => ({ id: row.id, company })))
+    })
+  },
+
+  // Put a posting back on the board for another listing period. Drafts that
+  // were never approved go to the moderation queue instead.
+  renew(id: string, expiresAt = defaultExpiry()): Promise<Job> {
+    return withDataAccess('renew job', async () => {
+      const current = await ownedJob(id)
+      const row = await jobsTable().update(id, {
+        status: needsReview(current) ? 'pending' : 'active',
+        expiresAt: expiresAt.toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      return toJob(row)
+    })
+  },
+
+  // Persist the expired status for a poster's active jobs whose date has
+  // passed, so the stored lifecycle matches what the board shows
+  archiveExpired(userId: string): Promise<number> {
+    return withDataAccess('archive expired jobs', async () => {
+      requireOwner(userId)
+      const expired = await selectJobs(
+        sql('user_id = ? AND status = ? AND expires_at <= ?', userId, 'active', new Date().toISOString())
+      )
+      await Promise.all(expired.map(job => jobsTable().update(job.id, { status: 'expired' })))
+      return expired.length
+    })
+  },
+
+  // Deleting a job also removes every saved reference, application and
+  // report for it. Moderators can delete any posting.
+  remove(id: string): Promise<void> {
+    return withDataAccess('delete job', async () => {
+      await ownedJob(id, 'reviewJobs')
+      await jobsTable().delete(id)
+      await Promise.all([
+        savedJobsRepository.removeForJob(id),
+        applicationsRepository.removeForJob(id),
+        reportsRepository.removeForJob(id)
+      ])
+    })
+  }
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import type { AppNotification } from '../types/notification'
+import { requireRowOwner, requireUser } from './access'
+import { createId, optionalString, parseRow, parseRows, sqliteBoolean, withDataAccess } from './rows'
+
+const TABLE = 'notifications'
+
+export const notificationRowSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  body: z.string(),
+  link: optionalString,
+  read: sqliteBoolean,
+  createdAt: z.string()
+})
+
+export type NotificationRow = z.input<typeof notificationRowSchema>
+
+const notificationsTable = () => blink.db.table<NotificationRow>(TABLE)
+
+export const toNotification = (row: unknown): AppNotification => parseRow(TABLE, notificationRowSchema, row)
+
+export const notificationsRepository = {
+  listForUser(userId: string, limit = 50): Promise<AppNotification[]> {
+    return withDataAccess('load notifications', async () => {
+      const rows = await notificationsTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        limit
+      })
+      return parseRows(TABLE, notificationRowSchema, rows)
+    })
+  },
+
+  // Any signed-in user can notify another, e.g. a moderator telling a poster
+  // about their job
+  create(userId: string, notification: Pick<AppNotification, 'title' | 'body' | 'link'>): Promise<AppNotification> {
+    return withDataAccess('create notification', async () => {
+      requireUser()
+      const row = await notificationsTable().create({
+        id: createId('note'),
+        userId,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link ?? null,
+        read: 0
+      })
+      return toNotification(row)
+    })
+  },
+
+  markRead(ids: string[]): Promise<void> {
+    if (ids.length === 0) return Promise.resolve()
+    return withDataAccess('mark notifications read', async () => {
+      await requireRowOwner(TABLE, ids)
+      await notificationsTable().updateMany(ids.map(id => ({ id, read: 1 })))
+    })
+  }
+}
@@ -0,0 +1,103 @@
+import type { SavedJob } from '../types/job'
+import { withDataAccess } from './rows'
+
+// The browser-side copy of what the user last saw, kept in IndexedDB so the
+// board and saved jobs still show when the network is down, plus the
+// save/unsave changes made offline that still have to reach the database.
+
+const DB_NAME = 'nichejobs'
+const DB_VERSION = 1
+const CACHE_STORE = 'cache'
+const SAVE_QUEUE_STORE = 'saveQueue'
+
+export type QueuedSaveChange =
+  | { userId: string; jobId: string; action: 'save' }
+  | { userId: string; jobId: string; action: 'unsave'; save: SavedJob }
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CACHE_STORE)
+      request.result.createObjectStore(SAVE_QUEUE_STORE, { keyPath: ['userId', 'jobId'] })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      database = null
+      reject(request.error)
+    }
+  })
+  return database
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const isOffline = () => !navigator.onLine
+
+export const offlineStore = {
+  readCache<T>(key: string): Promise<T | undefined> {
+    return withDataAccess('read the offline copy', () =>
+      run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key))
+    )
+  },
+
+  writeCache<T>(key: string, value: T): Promise<void> {
+    return withDataAccess('update the offline copy', async () => {
+      await run(CACHE_STORE, 'readwrite', store => store.put(value, key))
+    })
+  },
+
+  // Queues a change for the job, or cancels the opposite change queued
+  // earlier. Cancelling an unsave hands back the save it would have removed.
+  queueSaveChange(change: QueuedSaveChange): Promise<SavedJob | undefined> {
+    return withDataAccess('queue saved job change', async () => {
+      const queued = await run<QueuedSaveChange | undefined>(SAVE_QUEUE_STORE, 'readonly', store =>
+        store.get([change.userId, change.jobId])
+      )
+      if (queued && queued.action !== change.action) {
+        await run(SAVE_QUEUE_STORE, 'readwrite', store => store.delete([change.userId, change.jobId]))
+        return queued.action === 'unsave' ? queued.save : undefined
+      }
+      await run(SAVE_QUEUE_STORE, 'readwrite', store => store.put(change))
+      return undefined
+    })
+  },
+
+  listQueuedSaveChanges(userId: string): Promise<QueuedSaveChange[]> {
+    return withDataAccess('load queued saved job changes', async () => {
+      const changes = await run<QueuedSaveChange[]>(SAVE_QUEUE_STORE, 'readonly', store => store.getAll())
+      return changes.filter(change => change.userId === userId)
+    })
+  },
+
+  removeQueuedSaveChange(change: QueuedSaveChange): Promise<void> {
+    return withDataAccess('clear queued saved job change', async () => {
+      await run(SAVE_QUEUE_STORE, 'readwrite', store => store.delete([change.userId, change.jobId]))
+    })
+  }
+}
+
+// The offline copy is a convenience, so failing to read or write it is only logged
+export const readOfflineCopy = <T,>(key: string) =>
+  offlineStore.readCache<T>(key).catch((error): undefined => {
+    console.error('Error reading offline copy:', error)
+    return undefined
+  })
+
+export const keepOfflineCopy = <T,>(key: string, value: T) =>
+  offlineStore.writeCache(key, value).catch(error => {
+    console.error('Error updating offline copy:', error)
+  })
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import type { JobReport, ReportCategory, ReportStatus } from '../types/report'
+import { requireOwner, requirePermission } from './access'
+import { createId, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'reports'
+
+export const reportRowSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  userId: z.string(),
+  category: z.enum(['scam', 'discriminatory', 'expired', 'wrongInfo']),
+  details: optionalString,
+  status: z.enum(['open', 'dismissed', 'actioned']),
+  createdAt: z.string()
+})
+
+export type ReportRow = z.input<typeof reportRowSchema>
+
+const reportsTable = () => blink.db.table<ReportRow>(TABLE)
+
+export const toReport = (row: unknown): JobReport => parseRow(TABLE, reportRowSchema, row)
+
+export const reportsRepository = {
+  // Reporting the same job again updates the earlier report, so each person
+  // only counts once towards hiding it
+  create(userId: string, jobId: string, category: ReportCategory, details: string): Promise<JobReport> {
+    return withDataAccess('report job', async () => {
+      requireOwner(userId)
+      const [existing] = await reportsTable().list({
+        where: { userId, jobId },
+        limit: 1
+      })
+      const fields = { category, details: details.trim() || null, status: 'open' as const }
+      const row = existing
+        ? await reportsTable().update(existing.id, fields)
+        : await reportsTable().create({ ...fields, id: createId('report'), jobId, userId })
+      return toReport(row)
+    })
+  },
+
+  listForUser(userId: string): Promise<JobReport[]> {
+    return withDataAccess('load your reports', async () => {
+      const rows = await reportsTable().list({ where: { userId } })
+      return parseRows(TABLE, reportRowSchema, rows)
+    })
+  },
+
+  // Reports moderators still have to deal with, newest first
+  listOpen(): Promise<JobReport[]> {
+    return withDataAccess('load reports', async () => {
+      requirePermission('reviewJobs')
+      const rows = await reportsTable().list({
+        where: { status: 'open' },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, reportRowSchema, rows)
+    })
+  },
+
+  countOpen(jobId: string): Promise<number> {
+    return withDataAccess('count reports', () =>
+      reportsTable().count({ where: { jobId, status: 'open' } })
+    )
+  },
+
+  // Closes every open report on a job once a moderator has decided on it
+  resolveForJob(jobId: string, status: Exclude<ReportStatus, 'open'>): Promise<void> {
+    return withDataAccess('resolve reports', async () => {
+      requirePermission('reviewJobs')
+      const rows = await reportsTable().list({
+        where: { jobId, status: 'open' },
+        select: ['id']
+      })
+      if (rows.length === 0) return
+      await reportsTable().updateMany(rows.map(row => ({ id: row.id, status })))
+    })
+  },
+
+  // Only called when deleting the job, which checks who's deleting it
+  removeForJob(jobId: string): Promise<void> {
+    return withDataAccess('remove reports for job', () => reportsTable().deleteMany({ where: { jobId } }))
+  }
+}
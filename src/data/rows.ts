@@ -0,0 +1,87 @@
+import { z } from 'zod'
+import { DataAccessError, RowValidationError } from './errors'
+
+// Shared zod building blocks for database rows. The blink SDK already
+// camelCases column names, but values arrive the way SQLite stores them:
+// numbers may be strings, booleans are 0/1 and arrays are JSON text.
+
+export const optionalString = z
+  .string()
+  .nullish()
+  .transform(value => value || undefined)
+
+export const optionalNumber = z
+  .union([z.number(), z.string()])
+  .nullish()
+  .transform(value => {
+    if (value === null || value === undefined || value === '') return undefined
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  })
+
+// SQLite stores booleans as 0/1, and some rows come back with "0"/"1" text
+export const sqliteBoolean = z
+  .union([z.boolean(), z.number(), z.string()])
+  .nullish()
+  .transform(value => value === true || Number(value) > 0)
+
+// JSON text columns holding arrays. Malformed JSON degrades to an empty list
+// and invalid items are dropped, instead of failing the whole row.
+export const jsonArray = <T extends z.ZodType>(item: T) =>
+  z
+    .union([z.string(), z.array(z.unknown())])
+    .nullish()
+    .transform((value): z.output<T>[] => {
+      if (!value) return []
+      let parsed: unknown = value
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value)
+        } catch {
+          return []
+        }
+      }
+      if (!Array.isArray(parsed)) return []
+      return parsed.flatMap(entry => {
+        const result = item.safeParse(entry)
+        return result.success ? [result.data] : []
+      })
+    })
+
+export const jsonStringArray = jsonArray(z.string())
+
+export function parseRow<S extends z.ZodType>(table: string, schema: S, row: unknown): z.output<S> {
+  const result = schema.safeParse(row)
+  if (!result.success) {
+    throw new RowValidationError(
+      table,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(row)'}: ${issue.message}`)
+    )
+  }
+  return result.data
+}
+
+// Lists skip rows that fail validation so one bad record can't blank a page
+export function parseRows<S extends z.ZodType>(table: string, schema: S, rows: unknown[]): z.output<S>[] {
+  return rows.flatMap(row => {
+    try {
+      return [parseRow(table, schema, row)]
+    } catch (error) {
+      console.warn(`Skipping invalid ${table} row:`, error)
+      return []
+    }
+  })
+}
+
+// Run a database call and rethrow SDK failures as a DataAccessError
+export async function withDataAccess<T>(description: string, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation()
+  } catch (error) {
+    if (error instanceof DataAccessError) throw error
+    throw new DataAccessError(`Failed to ${description}`, error)
+  }
+}
+
+export const createId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
@@ -0,0 +1,109 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import type { SavedJob, SavedJobDetails } from '../types/job'
+import { requireOwner } from './access'
+import { NotFoundError } from './errors'
+import { createId, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'savedJobs'
+
+export const savedJobRowSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  userId: z.string(),
+  createdAt: z.string(),
+  collection: optionalString,
+  notes: optionalString,
+  remindAt: optionalString,
+  remindedAt: optionalString
+})
+
+export type SavedJobRow = z.input<typeof savedJobRowSchema>
+
+const savedJobsTable = () => blink.db.table<SavedJobRow>(TABLE)
+
+const findSave = async (userId: string, jobId: string) => {
+  const [row] = await savedJobsTable().list({
+    where: { userId, jobId },
+    limit: 1
+  })
+  return row
+}
+
+export const toSavedJob = (row: unknown): SavedJob => parseRow(TABLE, savedJobRowSchema, row)
+
+export const savedJobsRepository = {
+  listForUser(userId: string): Promise<SavedJob[]> {
+    return withDataAccess('load saved jobs', async () => {
+      const rows = await savedJobsTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      // Saves made before create() deduplicated can repeat a job; the
+      // newest one stands for it
+      const seen = new Set<string>()
+      return parseRows(TABLE, savedJobRowSchema, rows).filter(save => {
+        if (seen.has(save.jobId)) return false
+        seen.add(save.jobId)
+        return true
+      })
+    })
+  },
+
+  create(userId: string, jobId: string): Promise<SavedJob> {
+    return withDataAccess('save job', async () => {
+      requireOwner(userId)
+      // Saving a job twice (a double click, another tab, a retried sync)
+      // returns the first save instead of adding another
+      const existing = await findSave(userId, jobId)
+      if (existing) return toSavedJob(existing)
+      const row = await savedJobsTable().create({
+        id: createId('save'),
+        jobId,
+        userId
+      })
+      return toSavedJob(row)
+    })
+  },
+
+  // Moving the reminder to another day means it's sent again on that day
+  updateDetails(userId: string, jobId: string, details: SavedJobDetails): Promise<SavedJob> {
+    return withDataAccess('update saved job', async () => {
+      requireOwner(userId)
+      const existing = await findSave(userId, jobId)
+      if (!existing) throw new NotFoundError(TABLE, jobId)
+      const remindAt = details.remindAt ?? null
+      const row = await savedJobsTable().update(existing.id, {
+        collection: details.collection?.trim() || null,
+        notes: details.notes?.trim() || null,
+        remindAt,
+        ...(remindAt !== (existing.remindAt ?? null) && { remindedAt: null })
+      })
+      return toSavedJob(row)
+    })
+  },
+
+  markReminded(userId: string, jobId: string): Promise<SavedJob> {
+    return withDataAccess('mark reminder sent', async () => {
+      requireOwner(userId)
+      const existing = await findSave(userId, jobId)
+      if (!existing) throw new NotFoundError(TABLE, jobId)
+      const row = await savedJobsTable().update(existing.id, { remindedAt: new Date().toISOString() })
+      return toSavedJob(row)
+    })
+  },
+
+  // Removes every save of the job, so unsaving doesn't depend on which
+  // save id the caller has seen
+  unsave(userId: string, jobId: string): Promise<void> {
+    return withDataAccess('unsave job', async () => {
+      requireOwner(userId)
+      await savedJobsTable().deleteMany({ where: { userId, jobId } })
+    })
+  },
+
+  // Only called when deleting the job, which checks who's deleting it
+  removeForJob(jobId: string): Promise<void> {
+    return withDataAccess('remove saves for job', () => savedJobsTable().deleteMany({ where: { jobId } }))
+  }
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { filtersFromSearchParams, filtersToSearchParams, type JobFilters } from '../lib/jobFilters'
+import type { SavedSearch } from '../types/savedSearch'
+import { requireOwner, requireRowOwner } from './access'
+import { createId, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'savedSearches'
+
+// Filters are stored in their query-string form, the same one board URLs use
+export const savedSearchRowSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  filters: z.string().nullish().transform(value => filtersFromSearchParams(new URLSearchParams(value ?? ''))),
+  lastSeenAt: z.string().nullish(),
+  lastNotifiedAt: z.string().nullish(),
+  createdAt: z.string()
+}).transform(search => ({
+  ...search,
+  lastSeenAt: search.lastSeenAt ?? search.createdAt,
+  lastNotifiedAt: search.lastNotifiedAt ?? search.createdAt
+}))
+
+export type SavedSearchRow = z.input<typeof savedSearchRowSchema>
+
+const savedSearchesTable = () => blink.db.table<SavedSearchRow>(TABLE)
+
+export const toSavedSearch = (row: unknown): SavedSearch => parseRow(TABLE, savedSearchRowSchema, row)
+
+export const savedSearchesRepository = {
+  listForUser(userId: string): Promise<SavedSearch[]> {
+    return withDataAccess('load saved searches', async () => {
+      const rows = await savedSearchesTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, savedSearchRowSchema, rows)
+    })
+  },
+
+  create(userId: string, name: string, filters: JobFilters): Promise<SavedSearch> {
+    return withDataAccess('save search', async () => {
+      requireOwner(userId)
+      const now = new Date().toISOString()
+      const row = await savedSearchesTable().create({
+        id: createId('search'),
+        userId,
+        name,
+        filters: filtersToSearchParams(filters).toString(),
+        lastSeenAt: now,
+        lastNotifiedAt: now
+      })
+      return toSavedSearch(row)
+    })
+  },
+
+  markSeen(id: string): Promise<SavedSearch> {
+    return withDataAccess('update saved search', async () => {
+      await requireRowOwner(TABLE, id)
+      const row = await savedSearchesTable().update(id, { lastSeenAt: new Date().toISOString() })
+      return toSavedSearch(row)
+    })
+  },
+
+  markNotified(ids: string[], notifiedAt: string): Promise<void> {
+    if (ids.length === 0) return Promise.resolve()
+    return withDataAccess('update saved searches', async () => {
+      await requireRowOwner(TABLE, ids)
+      await savedSearchesTable().updateMany(ids.map(id => ({ id, lastNotifiedAt: notifiedAt })))
+    })
+  },
+
+  remove(id: string): Promise<void> {
+    return withDataAccess('delete saved search', async () => {
+      await requireRowOwner(TABLE, id)
+      await savedSearchesTable().delete(id)
+    })
+  }
+}
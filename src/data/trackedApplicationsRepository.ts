@@ -0,0 +1,104 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import type { Job } from '../types/job'
+import type { TrackedApplication, TrackedStatus } from '../types/trackedApplication'
+import { requireOwner, requireRowOwner } from './access'
+import { createId, jsonArray, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'trackedApplications'
+
+const statusSchema = z.enum(['applied', 'heard_back', 'interviewing', 'offer', 'accepted', 'rejected', 'withdrawn'])
+
+export const trackedApplicationRowSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  jobId: z.string(),
+  jobTitle: z.string(),
+  company: z.string(),
+  method: z.enum(['email', 'link', 'onsite']),
+  status: statusSchema.nullish().transform(value => value ?? 'applied'),
+  notes: optionalString,
+  history: jsonArray(z.object({ status: statusSchema, changedAt: z.string() })),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}).transform(tracked => ({
+  ...tracked,
+  history: tracked.history.length > 0
+    ? tracked.history
+    : [{ status: 'applied' as const, changedAt: tracked.createdAt }]
+}))
+
+export type TrackedApplicationRow = z.input<typeof trackedApplicationRowSchema>
+
+const trackedApplicationsTable = () => blink.db.table<TrackedApplicationRow>(TABLE)
+
+export const toTrackedApplication = (row: unknown): TrackedApplication =>
+  parseRow(TABLE, trackedApplicationRowSchema, row)
+
+export const trackedApplicationsRepository = {
+  listForUser(userId: string): Promise<TrackedApplication[]> {
+    return withDataAccess('load your applications', async () => {
+      const rows = await trackedApplicationsTable().list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' }
+      })
+      return parseRows(TABLE, trackedApplicationRowSchema, rows)
+    })
+  },
+
+  // Applying to the same job twice keeps the original record and its history
+  record(userId: string, job: Job): Promise<TrackedApplication> {
+    return withDataAccess('track application', async () => {
+      requireOwner(userId)
+      const [existing] = await trackedApplicationsTable().list({
+        where: { userId, jobId: job.id },
+        limit: 1
+      })
+      if (existing) return toTrackedApplication(existing)
+
+      const row = await trackedApplicationsTable().create({
+        id: createId('track'),
+        userId,
+        jobId: job.id,
+        jobTitle: job.title,
+        company: job.company,
+        method: job.applicationType,
+        status: 'applied',
+        notes: null,
+        history: JSON.stringify([{ status: 'applied', changedAt: new Date().toISOString() }])
+      })
+      return toTrackedApplication(row)
+    })
+  },
+
+  setStatus(tracked: TrackedApplication, status: TrackedStatus): Promise<TrackedApplication> {
+    return withDataAccess('update application status', async () => {
+      await requireRowOwner(TABLE, tracked.id)
+      const now = new Date().toISOString()
+      const row = await trackedApplicationsTable().update(tracked.id, {
+        status,
+        history: JSON.stringify([...tracked.history, { status, changedAt: now }]),
+        updatedAt: now
+      })
+      return toTrackedApplication(row)
+    })
+  },
+
+  updateNotes(id: string, notes: string): Promise<TrackedApplication> {
+    return withDataAccess('save notes', async () => {
+      await requireRowOwner(TABLE, id)
+      const row = await trackedApplicationsTable().update(id, {
+        notes: notes.trim() || null,
+        updatedAt: new Date().toISOString()
+      })
+      return toTrackedApplication(row)
+    })
+  },
+
+  remove(id: string): Promise<void> {
+    return withDataAccess('remove tracked application', async () => {
+      await requireRowOwner(TABLE, id)
+      await trackedApplicationsTable().delete(id)
+    })
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+import { blink } from '../blink/client'
+import { isConfiguredAdmin } from '../lib/permissions'
+import { containsPattern, LIKE_ESCAPE } from '../lib/sql'
+import type { Role, UserProfile } from '../types/user'
+import { requirePermission } from './access'
+import { PermissionError } from './errors'
+import { jsonArray, optionalString, parseRow, parseRows, withDataAccess } from './rows'
+
+const TABLE = 'userProfiles'
+
+export const userProfileRowSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  displayName: optionalString,
+  roles: jsonArray(z.enum(['candidate', 'employer', 'moderator', 'admin'])),
+  createdAt: z.string(),
+  updatedAt: z.string()
+})
+
+export type UserProfileRow = z.input<typeof userProfileRowSchema>
+
+const profilesTable = () => blink.db.table<UserProfileRow>(TABLE)
+
+export const toUserProfile = (row: unknown): UserProfile => parseRow(TABLE, userProfileRowSchema, row)
+
+interface Account {
+  id: string
+  email: string
+  displayName?: string
+}
+
+const ADMIN_ROLES: Role[] = ['employer', 'moderator', 'admin']
+
+// Everyone can search and apply. Accounts listed in VITE_ADMIN_EMAILS are
+// admins, and people who posted jobs before roles existed keep posting.
+async function initialRoles(account: Account): Promise<Role[]> {
+  const roles: Role[] = ['candidate']
+  if (await blink.db.table('jobs').exists({ where: { userId: account.id } })) roles.push('employer')
+  if (isConfiguredAdmin(account.email)) roles.push(...ADMIN_ROLES)
+  return [...new Set(roles)]
+}
+
+export const usersRepository = {
+  // The signed-in account's profile, created on first sign-in. This runs
+  // before the profile is registered for write checks, and only ever writes
+  // the caller's own row. A configured admin who signed up before being
+  // listed gets the admin roles on their next sign-in.
+  getOrCreate(account: Account): Promise<UserProfile> {
+    return withDataAccess('load your profile', async () => {
+      const existing = await profilesTable().get(account.id)
+      if (existing) {
+        const profile = toUserProfile(existing)
+        if (!isConfiguredAdmin(profile.email) || profile.roles.includes('admin')) return profile
+        const row = await profilesTable().update(account.id, {
+          roles: JSON.stringify([...new Set([...profile.roles, ...ADMIN_ROLES])]),
+          updatedAt: new Date().toISOString()
+        })
+        return toUserProfile(row)
+      }
+
+      const row = await profilesTable().create({
+        id: account.id,
+        email: account.email,
+        displayName: account.displayName ?? null,
+        roles: JSON.stringify(await initialRoles(account))
+      })
+      return toUserProfile(row)
+    })
+  },
+
+  // Profiles whose email or name contains `query`, for the admin screen
+  search(query: string, limit = 50): Promise<UserProfile[]> {
+    return withDataAccess('search users', async () => {
+      const term = query.trim()
+      if (!term) {
+        return parseRows(TABLE, userProfileRowSchema, await profilesTable().list({ orderBy: { email: 'asc' }, limit }))
+      }
+      const pattern = containsPattern(term)
+      // Raw SQL names the table the way the database stores it
+      const { rows } = await blink.db.sql<UserProfileRow>(
+        `SELECT * FROM user_profiles WHERE email LIKE ? ${LIKE_ESCAPE} OR display_name LIKE ? ${LIKE_ESCAPE} ORDER BY email ASC LIMIT ?`,
+        [pattern, pattern, limit]
+      )
+      return parseRows(TABLE, userProfileRowSchema, rows)
+    })
+  },
+
+  // Admins can't drop their own admin role, so the board always keeps one
+  setRoles(userId: string, roles: Role[]): Promise<UserProfile> {
+    return withDataAccess('update roles', async () => {
+      const admin = requirePermission('manageRoles')
+      if (userId === admin.id && !roles.includes('admin')) {
+        throw new PermissionError('remove your own admin role')
+      }
+      const row = await profilesTable().update(userId, {
+        roles: JSON.stringify([...new Set(roles)]),
+        updatedAt: new Date().toISOString()
+      })
+      return toUserProfile(row)
+    })
+  }
+}
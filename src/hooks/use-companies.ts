@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+import { companiesRepository } from '../data/companiesRepository'
+import type { Company } from '../types/company'
+import type { Job } from '../types/job'
+
+// Company profiles for the given jobs, by id. Profiles are fetched once and
+// kept for the session; ones created or edited here are added with
+// rememberCompany.
+export function useCompanies(jobs: Job[]) {
+  const [companies, setCompanies] = useState<Record<string, Company>>({})
+
+  // A stable key, so the effect only runs when the set of ids changes
+  const missingKey = [...new Set(jobs.flatMap(job => (job.companyId ? [job.companyId] : [])))]
+    .filter(id => !(id in companies))
+    .sort()
+    .join(',')
+
+  useEffect(() => {
+    if (!missingKey) return
+
+    let cancelled = false
+    companiesRepository.listByIds(missingKey.split(','))
+      .then(result => {
+        if (cancelled) return
+        setCompanies(prev => ({ ...prev, ...Object.fromEntries(result.map(company => [company.id, company])) }))
+      })
+      .catch(error => console.error('Error loading companies:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [missingKey])
+
+  const rememberCompany = useCallback((company: Company) => {
+    setCompanies(prev => ({ ...prev, [company.id]: company }))
+  }, [])
+
+  return { companies, rememberCompany }
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { BlinkUser } from '@blinkdotnew/sdk'
+import { blink } from '../blink/client'
+import { setCurrentUser } from '../data/access'
+import { usersRepository } from '../data/usersRepository'
+import type { UserProfile } from '../types/user'
+
+// The signed-in user's profile, with their roles. It's registered with the
+// data layer as soon as it loads, so writes are checked against it.
+export function useCurrentUser() {
+  const [account, setAccount] = useState<BlinkUser | null>(null)
+  const [authLoading, setAuthLoading] = useState(true)
+  const [user, setUser] = useState<UserProfile | null>(null)
+
+  useEffect(() => {
+    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+      setAccount(state.user)
+      setAuthLoading(state.isLoading)
+    })
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!account) {
+      setCurrentUser(null)
+      setUser(null)
+      return
+    }
+
+    let cancelled = false
+    usersRepository.getOrCreate(account)
+      .catch((error): UserProfile => {
+        // Without a profile the board still works, with a candidate's access
+        console.error('Error loading profile:', error)
+        const now = new Date().toISOString()
+        return {
+          id: account.id,
+          email: account.email,
+          displayName: account.displayName,
+          roles: ['candidate'],
+          createdAt: now,
+          updatedAt: now
+        }
+      })
+      .then(profile => {
+        if (cancelled) return
+        setCurrentUser(profile)
+        setUser(profile)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [account])
+
+  // For role changes made during this session
+  const updateUser = useCallback((profile: UserProfile) => {
+    setCurrentUser(profile)
+    setUser(profile)
+  }, [])
+
+  const profileLoading = account !== null && user?.id !== account.id
+
+  return { user, loading: authLoading || profileLoading, updateUser }
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react'
+import { getLocale, LOCALES, setLocale, subscribeToLocale, t } from '../lib/i18n'
+
+// Re-renders the component when the language changes
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeToLocale, getLocale)
+  return { locale, setLocale, t, dir: LOCALES[locale].dir }
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { jobsRepository } from '../data/jobsRepository'
+import { isTextSearch, type JobFilters } from '../lib/jobFilters'
+import { JobSearchIndex } from '../lib/search'
+import type { Job } from '../types/job'
+
+const FEED_POLL_MS = 30000
+
+// Watches the board for changes made since the listed jobs were fetched at
+// `since`. Edits and removals are handed to `onChanges` as they're found;
+// new jobs are held back until the user asks for them, so the list doesn't
+// move under them.
+export function useJobFeed(
+  filters: JobFilters,
+  since: string | null,
+  shownJobs: Job[],
+  onChanges: (updated: Job[], removedIds: string[]) => void
+) {
+  const [newJobs, setNewJobs] = useState<Job[]>([])
+  // Read when a poll runs, so re-renders don't restart the poll timer
+  const shownJobsRef = useRef(shownJobs)
+  const onChangesRef = useRef(onChanges)
+
+  useEffect(() => {
+    shownJobsRef.current = shownJobs
+    onChangesRef.current = onChanges
+  }, [shownJobs, onChanges])
+
+  // A fresh fetch includes everything found so far
+  useEffect(() => {
+    setNewJobs([])
+  }, [since, filters])
+
+  useEffect(() => {
+    if (!since) return
+    let cancelled = false
+
+    const poll = async () => {
+      // Background tabs and offline ones catch up when they're back
+      if (document.hidden || !navigator.onLine) return
+      const shownJobs = shownJobsRef.current
+      const shownIds = shownJobs.map(job => job.id)
+      try {
+        const [fresh, matchingIds, updated] = await Promise.all([
+          jobsRepository.listSince(filters, since),
+          jobsRepository.listMatchingIds(filters, shownIds),
+          jobsRepository.listUpdatedSince(shownIds, since)
+        ])
+        if (cancelled) return
+
+        // The database only narrows a text search; the index decides which
+        // new jobs actually match it, as it does for the listed ones
+        const matching = isTextSearch(filters)
+          ? new JobSearchIndex(fresh).search(filters.searchQuery).map(result => result.job)
+          : fresh
+        const shown = new Map(shownJobs.map(job => [job.id, job]))
+        setNewJobs(matching.filter(job => !shown.has(job.id)))
+        const removedIds = shownIds.filter(id => !matchingIds.includes(id))
+        const changed = updated.filter(job =>
+          !removedIds.includes(job.id) && job.updatedAt !== shown.get(job.id)?.updatedAt
+        )
+        if (changed.length > 0 || removedIds.length > 0) onChangesRef.current(changed, removedIds)
+      } catch (error) {
+        console.error('Error checking for job changes:', error)
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden) poll()
+    }
+
+    const interval = setInterval(poll, FEED_POLL_MS)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [filters, since])
+
+  const dismissNewJobs = useCallback(() => setNewJobs([]), [])
+
+  return { newJobs, dismissNewJobs }
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react'
+import { jobsRepository } from '../data/jobsRepository'
+import { notificationsRepository } from '../data/notificationsRepository'
+import { reportsRepository } from '../data/reportsRepository'
+import { reviewNotification } from '../lib/moderation'
+import { t } from '../lib/i18n'
+import { useToast } from './use-toast'
+import type { Job } from '../types/job'
+import type { JobReport } from '../types/report'
+
+// Postings waiting for a moderator, for users who can review them, along
+// with live postings that users have reported. Decisions are sent to the
+// poster as an in-app notification.
+export function useModerationQueue(enabled: boolean, onReviewed: (job: Job) => void) {
+  const [queue, setQueue] = useState<Job[]>([])
+  // Open reports, and the reported postings that aren't already queued
+  const [reports, setReports] = useState<JobReport[]>([])
+  const [reportedJobs, setReportedJobs] = useState<Job[]>([])
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const loadQueue = useCallback(async () => {
+    if (!enabled) {
+      setQueue([])
+      setReports([])
+      setReportedJobs([])
+      return
+    }
+    setLoading(true)
+    try {
+      const [pending, openReports] = await Promise.all([
+        jobsRepository.listPending(),
+        reportsRepository.listOpen()
+      ])
+      const pendingIds = new Set(pending.map(job => job.id))
+      const reportedIds = [...new Set(openReports.map(report => report.jobId))]
+        .filter(id => !pendingIds.has(id))
+      setQueue(pending)
+      setReports(openReports)
+      setReportedJobs(await jobsRepository.listByIds(reportedIds))
+    } catch (error) {
+      console.error('Error loading moderation queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const dropJob = (jobId: string) => {
+    setQueue(prev => prev.filter(item => item.id !== jobId))
+    setReportedJobs(prev => prev.filter(item => item.id !== jobId))
+    setReports(prev => prev.filter(report => report.jobId !== jobId))
+  }
+
+  const review = async (job: Job, decision: 'approved' | 'rejected', reason?: string) => {
+    try {
+      const reviewed = decision === 'approved'
+        ? await jobsRepository.approve(job.id)
+        : await jobsRepository.reject(job.id, reason ?? '')
+      // Approving clears the posting of its reports, rejecting upholds them
+      await reportsRepository.resolveForJob(job.id, decision === 'approved' ? 'dismissed' : 'actioned')
+      dropJob(job.id)
+      onReviewed(reviewed)
+
+      // The decision stands even if the poster can't be told right away
+      try {
+        await notificationsRepository.create(job.userId, reviewNotification(reviewed, decision, reason))
+      } catch (error) {
+        console.error('Error notifying poster:', error)
+      }
+      toast({
+        title: t(decision === 'approved' ? 'toast.postingApproved' : 'toast.postingRejected'),
+        description: t('toast.posterNotified', { title: job.title })
+      })
+    } catch (error) {
+      console.error('Error reviewing job:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.reviewFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Leaves a reported posting live; its poster never hears about the reports
+  const dismissReports = async (job: Job) => {
+    try {
+      await reportsRepository.resolveForJob(job.id, 'dismissed')
+      dropJob(job.id)
+      toast({
+        title: t('toast.reportsDismissed'),
+        description: t('toast.reportsDismissedDescription', { title: job.title })
+      })
+    } catch (error) {
+      console.error('Error dismissing reports:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.reviewFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  return {
+    queue,
+    reports,
+    reportedJobs,
+    loading,
+    refreshQueue: loadQueue,
+    approve: (job: Job) => review(job, 'approved'),
+    reject: (job: Job, reason: string) => review(job, 'rejected', reason),
+    dismissReports
+  }
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react'
+import { notificationsRepository } from '../data/notificationsRepository'
+import type { AppNotification } from '../types/notification'
+
+// The signed-in user's in-app notifications, newest first
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([])
+      return
+    }
+
+    let cancelled = false
+    notificationsRepository.listForUser(userId)
+      .then(result => {
+        if (!cancelled) setNotifications(result)
+      })
+      .catch(error => console.error('Error loading notifications:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  // For notifications created elsewhere in the app during this session
+  const addNotification = useCallback((notification: AppNotification) => {
+    setNotifications(prev => [notification, ...prev])
+  }, [])
+
+  const markRead = useCallback(async (ids: string[]) => {
+    setNotifications(prev => prev.map(item => (ids.includes(item.id) ? { ...item, read: true } : item)))
+    try {
+      await notificationsRepository.markRead(ids)
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+    }
+  }, [])
+
+  return { notifications, addNotification, markRead }
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { jobsRepository } from '../data/jobsRepository'
+import { useToast } from './use-toast'
+import { parseCompareIds } from '../lib/compare'
+import { t } from '../lib/i18n'
+import type { Job } from '../types/job'
+
+// Resolves the `:jobId` route param to a job. Jobs the app already has are
+// returned immediately; deep links to anything else are fetched by id, and
+// `onMissing` runs if the job doesn't exist.
+export function useRouteJob(knownJobs: Job[], onMissing: () => void): Job | null {
+  const { jobId } = useParams()
+  const [fetchedJob, setFetchedJob] = useState<Job | null>(null)
+  const { toast } = useToast()
+
+  const knownJob = knownJobs.find(job => job.id === jobId) ?? null
+
+  useEffect(() => {
+    if (!jobId || knownJob) return
+
+    let cancelled = false
+    jobsRepository.get(jobId)
+      .then(result => {
+        if (!cancelled) setFetchedJob(result)
+      })
+      .catch(error => {
+        if (cancelled) return
+        console.error('Error loading job:', error)
+        toast({
+          title: t('common.error'),
+          description: t('toast.jobNotFound'),
+          variant: "destructive"
+        })
+        onMissing()
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [jobId, knownJob, toast, onMissing])
+
+  return knownJob ?? (fetchedJob?.id === jobId ? fetchedJob : null)
+}
+
+// Like useRouteJob, but only resolves jobs posted by `userId`; anyone else is
+// sent back with an error.
+export function useOwnedRouteJob(knownJobs: Job[], userId: string, onMissing: () => void): Job | null {
+  const job = useRouteJob(knownJobs, onMissing)
+  const { toast } = useToast()
+  const isOwner = job?.userId === userId
+
+  useEffect(() => {
+    if (job && !isOwner) {
+      toast({
+        title: t('common.error'),
+        description: t('toast.notYourPosting'),
+        variant: "destructive"
+      })
+      onMissing()
+    }
+  }, [job, isOwner, toast, onMissing])
+
+  return isOwner ? job : null
+}
+
+// Resolves the comma-separated `:jobIds` param of /compare to jobs, in the
+// order given. Jobs the app doesn't have are fetched together; any that no
+// longer exist are left out.
+export function useRouteJobs(knownJobs: Job[]): { jobs: Job[]; loading: boolean } {
+  const { jobIds } = useParams()
+  const [fetchedJobs, setFetchedJobs] = useState<Job[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const ids = parseCompareIds(jobIds)
+  const findJob = (id: string) =>
+    knownJobs.find(job => job.id === id) ?? fetchedJobs.find(job => job.id === id)
+  const missing = ids.filter(id => !knownJobs.some(job => job.id === id)).join(',')
+
+  useEffect(() => {
+    if (!missing) return
+
+    let cancelled = false
+    setLoading(true)
+    jobsRepository.listByIds(missing.split(','))
+      .then(result => {
+        if (!cancelled) setFetchedJobs(result)
+      })
+      .catch(error => {
+        if (!cancelled) console.error('Error loading jobs to compare:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [missing])
+
+  return { jobs: ids.flatMap(id => findJob(id) ?? []), loading }
+}
@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { jobsRepository } from '../data/jobsRepository'
+import { notificationsRepository } from '../data/notificationsRepository'
+import { savedJobsRepository } from '../data/savedJobsRepository'
+import { isOffline, keepOfflineCopy, offlineStore, readOfflineCopy } from '../data/offlineStore'
+import { isReminderDue, reminderNotification } from '../lib/savedJobs'
+import { t } from '../lib/i18n'
+import { useToast } from './use-toast'
+import type { SavedJob, SavedJobDetails } from '../types/job'
+import type { AppNotification } from '../types/notification'
+
+// Tabs of the same browser tell each other about saves over this channel,
+// so the saved count stays right in every open tab
+const CHANNEL_NAME = 'nichejobs.savedJobs'
+
+type SavedJobsMessage =
+  | { userId: string; kind: 'change'; jobId: string; save: SavedJob | null }
+  | { userId: string; kind: 'reload' }
+
+// The saves with the job's save replaced, added, or removed when it's null
+function withSave(saves: SavedJob[], jobId: string, save: SavedJob | null): SavedJob[] {
+  if (!save) return saves.filter(item => item.jobId !== jobId)
+  return saves.some(item => item.jobId === jobId)
+    ? saves.map(item => (item.jobId === jobId ? save : item))
+    : [...saves, save]
+}
+
+const placeholderSave = (userId: string, jobId: string, prefix: string): SavedJob => ({
+  id: `${prefix}_${jobId}`,
+  jobId,
+  userId,
+  createdAt: new Date().toISOString()
+})
+
+// The signed-in user's saved jobs. Saving and unsaving show straight away
+// and roll back if the database refuses; a job can't be toggled again
+// while its change is still being sent. Offline, changes are queued and
+// sent once the connection is back. Reminders that have come due are sent
+// as in-app notifications when the saves load.
+export function useSavedJobs(
+  userId: string | undefined,
+  online: boolean,
+  onNotify: (notification: AppNotification) => void
+) {
+  const [savedJobs, setSavedJobs] = useState<SavedJob[]>([])
+  const [loaded, setLoaded] = useState(false)
+  // The latest saves, read when deciding between saving and unsaving so
+  // quick clicks never act on an old render
+  const savesRef = useRef<SavedJob[]>([])
+  const inFlight = useRef(new Set<string>())
+  const channel = useRef<BroadcastChannel | null>(null)
+  const { toast } = useToast()
+
+  const update = useCallback((change: (saves: SavedJob[]) => SavedJob[]) => {
+    savesRef.current = change(savesRef.current)
+    setSavedJobs(savesRef.current)
+  }, [])
+
+  const broadcast = useCallback((message: SavedJobsMessage) => {
+    channel.current?.postMessage(message)
+  }, [])
+
+  const sendDueReminders = useCallback(async (saves: SavedJob[]) => {
+    if (!userId) return
+    const due = saves.filter(save => isReminderDue(save))
+    if (due.length === 0) return
+    try {
+      const jobs = await jobsRepository.listByIds(due.map(save => save.jobId))
+      for (const job of jobs) {
+        const save = due.find(item => item.jobId === job.id)
+        if (!save) continue
+        // Marked before notifying, so another tab loading at the same time
+        // doesn't send the reminder again
+        const reminded = await savedJobsRepository.markReminded(userId, job.id)
+        update(current => withSave(current, job.id, reminded))
+        broadcast({ userId, kind: 'change', jobId: job.id, save: reminded })
+        onNotify(await notificationsRepository.create(userId, reminderNotification(job, save)))
+      }
+    } catch (error) {
+      console.error('Error sending saved job reminders:', error)
+    }
+  }, [userId, update, broadcast, onNotify])
+
+  const loadSavedJobs = useCallback(async () => {
+    if (!userId) {
+      update(() => [])
+      setLoaded(false)
+      return
+    }
+    try {
+      const saves = await savedJobsRepository.listForUser(userId)
+      update(() => saves)
+      setLoaded(true)
+      sendDueReminders(saves)
+    } catch (error) {
+      console.error('Error loading saved jobs:', error)
+      const cached = await readOfflineCopy<SavedJob[]>(`savedJobs:${userId}`)
+      if (cached) {
+        update(() => cached)
+        setLoaded(true)
+      }
+    }
+  }, [userId, update, sendDueReminders])
+
+  useEffect(() => {
+    loadSavedJobs()
+  }, [loadSavedJobs])
+
+  useEffect(() => {
+    if (userId && loaded) keepOfflineCopy(`savedJobs:${userId}`, savedJobs)
+  }, [userId, loaded, savedJobs])
+
+  useEffect(() => {
+    if (!userId || typeof BroadcastChannel === 'undefined') return
+    const tabs = new BroadcastChannel(CHANNEL_NAME)
+    tabs.onmessage = (event: MessageEvent<SavedJobsMessage>) => {
+      const message = event.data
+      if (message.userId !== userId) return
+      if (message.kind === 'reload') {
+        loadSavedJobs()
+      } else {
+        update(saves => withSave(saves, message.jobId, message.save))
+      }
+    }
+    channel.current = tabs
+    return () => {
+      tabs.close()
+      channel.current = null
+    }
+  }, [userId, loadSavedJobs, update])
+
+  const queueChange = useCallback(async (userId: string, jobId: string, existing: SavedJob | undefined) => {
+    try {
+      let save: SavedJob | null = null
+      if (existing) {
+        await offlineStore.queueSaveChange({ userId, jobId, action: 'unsave', save: existing })
+      } else {
+        const restored = await offlineStore.queueSaveChange({ userId, jobId, action: 'save' })
+        save = restored ?? placeholderSave(userId, jobId, 'offline')
+      }
+      update(saves => withSave(saves, jobId, save))
+      broadcast({ userId, kind: 'change', jobId, save })
+      toast({
+        title: existing ? t('toast.jobUnsaved') : t('toast.jobSaved'),
+        description: t('toast.savedOffline')
+      })
+    } catch (error) {
+      console.error('Error queueing saved job change:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.saveJobFailed'),
+        variant: "destructive"
+      })
+    }
+  }, [update, broadcast, toast])
+
+  const toggleSave = useCallback(async (jobId: string) => {
+    if (!userId || inFlight.current.has(jobId)) return
+    inFlight.current.add(jobId)
+    const existing = savesRef.current.find(save => save.jobId === jobId)
+    try {
+      if (isOffline()) {
+        await queueChange(userId, jobId, existing)
+        return
+      }
+
+      update(saves => withSave(saves, jobId, existing ? null : placeholderSave(userId, jobId, 'pending')))
+      try {
+        if (existing) {
+          await savedJobsRepository.unsave(userId, jobId)
+          broadcast({ userId, kind: 'change', jobId, save: null })
+        } else {
+          const save = await savedJobsRepository.create(userId, jobId)
+          update(saves => withSave(saves, jobId, save))
+          broadcast({ userId, kind: 'change', jobId, save })
+        }
+        toast({
+          title: existing ? t('toast.jobUnsaved') : t('toast.jobSaved'),
+          description: existing ? t('toast.jobUnsavedDescription') : t('toast.jobSavedDescription')
+        })
+      } catch (error) {
+        console.error('Error saving job:', error)
+        update(saves => withSave(saves, jobId, existing ?? null))
+        toast({
+          title: t('common.error'),
+          description: t('toast.saveJobFailed'),
+          variant: "destructive"
+        })
+      }
+    } finally {
+      inFlight.current.delete(jobId)
+    }
+  }, [userId, queueChange, update, broadcast, toast])
+
+  // Sends the changes queued offline, then reloads so offline placeholders
+  // get their real ids. Saving and unsaving are idempotent, so a change
+  // another tab already sent does no harm.
+  const syncQueuedSaves = useCallback(async () => {
+    if (!userId) return
+    try {
+      const changes = await offlineStore.listQueuedSaveChanges(userId)
+      if (changes.length === 0) return
+      for (const change of changes) {
+        if (change.action === 'save') {
+          await savedJobsRepository.create(userId, change.jobId)
+        } else {
+          await savedJobsRepository.unsave(userId, change.jobId)
+        }
+        await offlineStore.removeQueuedSaveChange(change)
+      }
+      await loadSavedJobs()
+      broadcast({ userId, kind: 'reload' })
+      toast({
+        title: t('toast.savesSynced'),
+        description: t('toast.savesSyncedDescription', { count: changes.length })
+      })
+    } catch (error) {
+      console.error('Error syncing saved jobs:', error)
+    }
+  }, [userId, loadSavedJobs, broadcast, toast])
+
+  useEffect(() => {
+    if (online && loaded) syncQueuedSaves()
+  }, [online, loaded, syncQueuedSaves])
+
+  // Resolves false when the changes couldn't be saved, so the form keeps them
+  const updateDetails = useCallback(async (jobId: string, details: SavedJobDetails) => {
+    if (!userId) return false
+    try {
+      const save = await savedJobsRepository.updateDetails(userId, jobId, details)
+      update(saves => withSave(saves, jobId, save))
+      broadcast({ userId, kind: 'change', jobId, save })
+      return true
+    } catch (error) {
+      console.error('Error updating saved job:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.updateSavedJobFailed'),
+        variant: "destructive"
+      })
+      return false
+    }
+  }, [userId, update, broadcast, toast])
+
+  // Drops the saves of a job that no longer exists
+  const forgetJob = useCallback((jobId: string) => {
+    update(saves => withSave(saves, jobId, null))
+  }, [update])
+
+  return { savedJobs, loaded, toggleSave, updateDetails, forgetJob }
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from 'react'
+import { jobsRepository } from '../data/jobsRepository'
+import { notificationsRepository } from '../data/notificationsRepository'
+import { savedSearchesRepository } from '../data/savedSearchesRepository'
+import { isTextSearch, type JobFilters } from '../lib/jobFilters'
+import { JobSearchIndex } from '../lib/search'
+import { buildSearchDigest, type DigestEntry } from '../lib/searchDigest'
+import { sendMail } from '../lib/mail'
+import { t } from '../lib/i18n'
+import { useToast } from './use-toast'
+import type { Job } from '../types/job'
+import type { AppNotification } from '../types/notification'
+import type { SavedSearch } from '../types/savedSearch'
+
+// New jobs for a saved search, ranked the same way the board ranks a text search
+async function findNewMatches(search: SavedSearch): Promise<Job[]> {
+  const jobs = await jobsRepository.listSince(search.filters, search.lastSeenAt)
+  if (!isTextSearch(search.filters)) return jobs
+  return new JobSearchIndex(jobs).search(search.filters.searchQuery).map(result => result.job)
+}
+
+// Moderated postings reach the board when they're approved, not when posted
+const postedAfter = (job: Job, timestamp: string) =>
+  new Date(job.approvedAt ?? job.createdAt) > new Date(timestamp)
+
+// Loads the user's saved searches and the jobs posted since each was last
+// viewed. Jobs that haven't been announced yet are sent as one digest: an
+// in-app notification plus an email.
+export function useSavedSearches(
+  user: { id: string; email: string } | null,
+  onNotify: (notification: AppNotification) => void
+) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [newMatches, setNewMatches] = useState<Record<string, Job[]>>({})
+  const { toast } = useToast()
+
+  const sendDigest = useCallback(async (entries: DigestEntry[]) => {
+    if (!user) return
+    const digest = buildSearchDigest(entries, window.location.origin)
+    const notifiedAt = new Date().toISOString()
+
+    onNotify(await notificationsRepository.create(user.id, digest))
+    try {
+      await sendMail({ to: user.email, subject: digest.subject, text: digest.text })
+    } catch (error) {
+      console.error('Error sending search digest:', error)
+    }
+    await savedSearchesRepository.markNotified(entries.map(entry => entry.search.id), notifiedAt)
+  }, [user, onNotify])
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!user) return
+    try {
+      const searches = await savedSearchesRepository.listForUser(user.id)
+      setSavedSearches(searches)
+
+      const matches = await Promise.all(searches.map(findNewMatches))
+      setNewMatches(Object.fromEntries(searches.map((search, index) => [search.id, matches[index]])))
+
+      const digestEntries = searches
+        .map((search, index) => ({
+          search,
+          jobs: matches[index].filter(job => postedAfter(job, search.lastNotifiedAt))
+        }))
+        .filter(entry => entry.jobs.length > 0)
+      if (digestEntries.length > 0) await sendDigest(digestEntries)
+    } catch (error) {
+      console.error('Error loading saved searches:', error)
+    }
+  }, [user, sendDigest])
+
+  useEffect(() => {
+    loadSavedSearches()
+  }, [loadSavedSearches])
+
+  const saveSearch = async (name: string, filters: JobFilters) => {
+    if (!user) return
+    try {
+      const search = await savedSearchesRepository.create(user.id, name, filters)
+      setSavedSearches(prev => [search, ...prev])
+      setNewMatches(prev => ({ ...prev, [search.id]: [] }))
+      toast({
+        title: t('toast.searchSaved'),
+        description: t('toast.searchSavedDescription', { name })
+      })
+    } catch (error) {
+      console.error('Error saving search:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.saveSearchFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Opening a saved search clears its "new" badge
+  const markSeen = async (search: SavedSearch) => {
+    setNewMatches(prev => ({ ...prev, [search.id]: [] }))
+    try {
+      const updated = await savedSearchesRepository.markSeen(search.id)
+      setSavedSearches(prev => prev.map(item => (item.id === updated.id ? updated : item)))
+    } catch (error) {
+      console.error('Error updating saved search:', error)
+    }
+  }
+
+  const removeSearch = async (search: SavedSearch) => {
+    try {
+      await savedSearchesRepository.remove(search.id)
+      setSavedSearches(prev => prev.filter(item => item.id !== search.id))
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+      toast({
+        title: t('common.error'),
+        description: t('toast.deleteSearchFailed'),
+        variant: "destructive"
+      })
+    }
+  }
+
+  return { savedSearches, newMatches, saveSearch, markSeen, removeSearch }
+}
@@ -0,0 +1,23 @@
+import type { MessageKey } from './i18n'
+import type { ApplicationStage } from '../types/application'
+
+// Pipeline columns, in the order an application moves through them
+export const APPLICATION_STAGES: ApplicationStage[] = ['applied', 'screening', 'interview', 'offer', 'hired', 'rejected']
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, MessageKey> = {
+  applied: 'applicationStage.applied',
+  screening: 'applicationStage.screening',
+  interview: 'applicationStage.interview',
+  offer: 'applicationStage.offer',
+  hired: 'applicationStage.hired',
+  rejected: 'applicationStage.rejected'
+}
+
+export const APPLICATION_STAGE_CLASSES: Record<ApplicationStage, string> = {
+  applied: 'bg-gray-100 text-gray-700 border-gray-200',
+  screening: 'bg-blue-50 text-blue-700 border-blue-200',
+  interview: 'bg-purple-50 text-purple-700 border-purple-200',
+  offer: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  hired: 'bg-green-50 text-green-700 border-green-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200'
+}
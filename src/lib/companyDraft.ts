@@ -0,0 +1,27 @@
+import type { Company, CompanySize } from '../types/company'
+
+// The editable profile fields, as held by the post-job and company forms
+export interface CompanyProfileDraft {
+  website: string
+  size: CompanySize | ''
+  industry: string
+  description: string
+  // A new logo to upload
+  logo: File | null
+}
+
+export const emptyCompanyDraft = (): CompanyProfileDraft => ({
+  website: '',
+  size: '',
+  industry: '',
+  description: '',
+  logo: null
+})
+
+export const draftFromCompany = (company: Company): CompanyProfileDraft => ({
+  website: company.website ?? '',
+  size: company.size ?? '',
+  industry: company.industry ?? '',
+  description: company.description ?? '',
+  logo: null
+})
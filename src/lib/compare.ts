@@ -0,0 +1,96 @@
+import { t, translateValue, type MessageKey } from './i18n'
+import { formatDate } from './i18n/format'
+import { formatJobLocation } from './location'
+import { comparableSalary, formatConvertedSalary, formatSalary } from './salary'
+import { markdownToPlainText } from './markdown'
+import type { Job } from '../types/job'
+
+// Wider than this and the table stops fitting on a screen or a printed page
+export const MAX_COMPARED_JOBS = 4
+
+export const comparePath = (jobIds: string[]) => `/compare/${jobIds.map(encodeURIComponent).join(',')}`
+
+export const parseCompareIds = (param = '') =>
+  param.split(',').filter(Boolean).slice(0, MAX_COMPARED_JOBS)
+
+export type ComparisonField =
+  | 'salary'
+  | 'postedSalary'
+  | 'location'
+  | 'employmentType'
+  | 'experienceLevel'
+  | 'benefits'
+  | 'tags'
+  | 'expires'
+
+export interface ComparisonRow {
+  field: ComparisonField
+  label: MessageKey
+  values: string[]
+  // Whether the jobs don't all have the same value
+  differs: boolean
+}
+
+const FIELD_LABELS: Record<ComparisonField, MessageKey> = {
+  salary: 'compare.field.salary',
+  postedSalary: 'compare.field.postedSalary',
+  location: 'compare.field.location',
+  employmentType: 'compare.field.employmentType',
+  experienceLevel: 'compare.field.experienceLevel',
+  benefits: 'compare.field.benefits',
+  tags: 'compare.field.tags',
+  expires: 'compare.field.expires'
+}
+
+// Salaries are shown per year in the viewer's currency, so jobs paid by the
+// hour or in another currency line up with the rest
+const normalizedSalary = (job: Job, currency: string) =>
+  formatConvertedSalary(job, currency) ?? formatSalary(job)
+
+const FIELD_VALUES: Record<ComparisonField, (job: Job, currency: string) => string> = {
+  salary: normalizedSalary,
+  postedSalary: job => formatSalary(job),
+  location: job => formatJobLocation(job),
+  employmentType: job => translateValue('employmentType', job.employmentType),
+  experienceLevel: job => translateValue('experienceLevel', job.experienceLevel),
+  benefits: job => (job.benefits ? markdownToPlainText(job.benefits) : t('compare.none')),
+  tags: job => (job.tags.length > 0 ? job.tags.join(', ') : t('compare.none')),
+  expires: job => (job.expiresAt ? formatDate(job.expiresAt) : t('compare.noExpiry'))
+}
+
+export function comparisonRows(jobs: Job[], currency: string): ComparisonRow[] {
+  return (Object.keys(FIELD_LABELS) as ComparisonField[]).map(field => {
+    const values = jobs.map(job => FIELD_VALUES[field](job, currency))
+    return { field, label: FIELD_LABELS[field], values, differs: new Set(values).size > 1 }
+  })
+}
+
+// Tags every compared job has; the others are what sets a job apart
+export const sharedTags = (jobs: Job[]) =>
+  jobs.length === 0 ? [] : jobs[0].tags.filter(tag => jobs.every(job => job.tags.includes(tag)))
+
+// The job paying most per year, when the salaries can be compared at all
+export function bestPaidJobId(jobs: Job[], currency: string): string | undefined {
+  const salaries = jobs
+    .map(job => ({ id: job.id, salary: comparableSalary(job, currency) }))
+    .filter((entry): entry is { id: string; salary: number } => entry.salary !== undefined)
+  if (salaries.length < 2) return undefined
+  return salaries.reduce((best, entry) => (entry.salary > best.salary ? entry : best)).id
+}
+
+// Cells a spreadsheet would run as a formula get a leading quote, since
+// job titles and tags are written by whoever posted the job. A leading tab or
+// carriage return counts too: some spreadsheets skip it and read what follows.
+function csvCell(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One column per job, in the same layout as the table on screen
+export function comparisonCsv(jobs: Job[], rows: ComparisonRow[]): string {
+  const lines = [
+    ['', ...jobs.map(job => `${job.title} · ${job.company}`)],
+    ...rows.map(row => [t(row.label), ...row.values])
+  ]
+  return lines.map(line => line.map(csvCell).join(',')).join('\r\n')
+}
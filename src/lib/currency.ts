@@ -0,0 +1,22 @@
+import exchangeRates from './exchangeRates.json'
+
+// Exchange rates are read from exchangeRates.json (units of each currency per
+// one unit of `base`). There's no live rate service; update the file to
+// change them.
+const RATES: Record<string, number> = exchangeRates.rates
+
+export const DEFAULT_CURRENCY = exchangeRates.base
+
+export const SUPPORTED_CURRENCIES = Object.keys(RATES)
+
+export const RATES_UPDATED_AT = exchangeRates.updatedAt
+
+export const isSupportedCurrency = (currency: string) => currency in RATES
+
+// Returns undefined for currencies without a rate, so callers can fall back
+// to the original amount instead of showing a wrong one
+export function convertAmount(amount: number, from: string, to: string): number | undefined {
+  if (from === to) return amount
+  if (!isSupportedCurrency(from) || !isSupportedCurrency(to)) return undefined
+  return (amount / RATES[from]) * RATES[to]
+}
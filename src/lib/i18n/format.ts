@@ -0,0 +1,29 @@
+import { format, formatDistanceToNow } from 'date-fns'
+import { localeConfig } from './index'
+
+// Locale-aware formatting for dates and numbers. Dates accept ISO strings as
+// stored in the database.
+
+const toDate = (value: string | Date) => (typeof value === 'string' ? new Date(value) : value)
+
+// e.g. "Oct 19, 2026"
+export const formatDate = (value: string | Date) =>
+  format(toDate(value), 'PP', { locale: localeConfig().dateLocale })
+
+// e.g. "Oct 19, 2026, 3:45 PM"
+export const formatDateTime = (value: string | Date) =>
+  format(toDate(value), 'PPp', { locale: localeConfig().dateLocale })
+
+// e.g. "3 days ago"
+export const formatRelative = (value: string | Date) =>
+  formatDistanceToNow(toDate(value), { addSuffix: true, locale: localeConfig().dateLocale })
+
+export const formatNumber = (value: number) => new Intl.NumberFormat(localeConfig().intl).format(value)
+
+export const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat(localeConfig().intl, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
@@ -0,0 +1,91 @@
+import type { Locale as DateFnsLocale } from 'date-fns'
+import { ar as arDateLocale, enUS } from 'date-fns/locale'
+import { en, type MessageKey, type Messages, type PluralMessage } from './messages/en'
+import { ar } from './messages/ar'
+
+export type { MessageKey } from './messages/en'
+
+export type Locale = 'en' | 'ar'
+
+interface LocaleConfig {
+  // Name of the language in that language, for the switcher
+  label: string
+  dir: 'ltr' | 'rtl'
+  // BCP 47 tag for Intl number and currency formatting
+  intl: string
+  dateLocale: DateFnsLocale
+  messages: Messages
+}
+
+export const LOCALES: Record<Locale, LocaleConfig> = {
+  en: { label: 'English', dir: 'ltr', intl: 'en-US', dateLocale: enUS, messages: en },
+  ar: { label: 'العربية', dir: 'rtl', intl: 'ar', dateLocale: arDateLocale, messages: ar }
+}
+
+const STORAGE_KEY = 'nichejobs.locale'
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES
+
+// A previously chosen language wins, then the browser's, then English
+function initialLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (isLocale(stored)) return stored
+  const browser = navigator.language.split('-')[0]
+  return isLocale(browser) ? browser : 'en'
+}
+
+let currentLocale: Locale = initialLocale()
+const listeners = new Set<() => void>()
+
+function applyToDocument(locale: Locale) {
+  document.documentElement.lang = locale
+  document.documentElement.dir = LOCALES[locale].dir
+}
+
+applyToDocument(currentLocale)
+
+export const getLocale = () => currentLocale
+
+export const localeConfig = () => LOCALES[currentLocale]
+
+export function setLocale(locale: Locale) {
+  if (locale === currentLocale) return
+  currentLocale = locale
+  localStorage.setItem(STORAGE_KEY, locale)
+  applyToDocument(locale)
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeToLocale(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export type MessageParams = Record<string, string | number>
+
+function selectPlural(message: PluralMessage, count: number): string {
+  const category = new Intl.PluralRules(localeConfig().intl).select(count) as keyof PluralMessage
+  return message[category] ?? message.other
+}
+
+// Looks up `key` in the current locale's catalog and fills in `{name}`
+// placeholders. Plural messages pick their form from `params.count`. Numbers
+// are formatted for the locale.
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = localeConfig().messages[key] ?? en[key]
+  const template = typeof message === 'string' ? message : selectPlural(message, Number(params.count ?? 0))
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name]
+    if (value === undefined) return match
+    return typeof value === 'number' ? new Intl.NumberFormat(localeConfig().intl).format(value) : value
+  })
+}
+
+// Stored values such as employment types are English strings. They're
+// translated when the catalog has an entry and shown as-is otherwise.
+export function translateValue(prefix: 'employmentType' | 'experienceLevel', value: string): string {
+  const key = `${prefix}.${value}`
+  return key in en ? t(key as MessageKey) : value
+}
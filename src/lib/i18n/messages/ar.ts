@@ -0,0 +1,485 @@
+import type { Messages } from './en'
+
+// Arabic UI strings. Plural messages use all six Arabic plural categories.
+export const ar: Messages = {
+  'admin.errors.load': 'تعذر تحميل المستخدمين',
+  'admin.errors.save': 'تعذر تحديث الأدوار',
+  'admin.joined': 'انضم في {date}',
+  'admin.noUsers': 'لا يوجد مستخدمون مطابقون',
+  'admin.searchPlaceholder': 'ابحث بالبريد الإلكتروني أو الاسم...',
+  'admin.subtitle': 'يمكن للجميع البحث والتقديم. امنح الأدوار الأخرى لتتيح للأشخاص النشر أو الإشراف أو إدارة اللوحة.',
+  'admin.title': 'المستخدمون والأدوار',
+  'admin.toggleRole': 'دور {role} للمستخدم {user}',
+  'admin.user': 'المستخدم',
+
+  'applicationStage.applied': 'تم التقديم',
+  'applicationStage.hired': 'تم التوظيف',
+  'applicationStage.interview': 'مقابلة',
+  'applicationStage.offer': 'عرض',
+  'applicationStage.rejected': 'مرفوض',
+  'applicationStage.screening': 'فرز',
+
+  'applications.empty.body': 'سيظهر هنا المرشحون الذين يتقدمون عبر NicheJobs.',
+  'applications.empty.title': 'لا توجد طلبات بعد',
+  'applications.jobAtCompany': '{title} لدى {company}',
+  'applications.noCoverLetter': 'لم يتم تقديم خطاب تعريفي.',
+  'applications.resumeFailed': 'تعذر فتح السيرة الذاتية. يرجى المحاولة مرة أخرى.',
+  'applications.stageHistory': 'سجل المراحل',
+  'applications.title': 'الطلبات ({count})',
+
+  'apply.coverLetter': 'خطاب التعريف',
+  'apply.coverLetterPlaceholder': 'أخبر صاحب العمل لماذا أنت مناسب لهذه الوظيفة...',
+  'apply.email': 'البريد الإلكتروني',
+  'apply.errors.contact': 'يرجى إدخال اسمك وبريدك الإلكتروني',
+  'apply.errors.resume': 'يرجى إرفاق سيرتك الذاتية',
+  'apply.errors.resumeSize': 'يجب ألا يتجاوز حجم السيرة الذاتية 5 ميغابايت',
+  'apply.errors.submit': 'تعذر إرسال طلبك. يرجى المحاولة مرة أخرى.',
+  'apply.name': 'الاسم الكامل',
+  'apply.resume': 'السيرة الذاتية',
+  'apply.resumeHint': 'ملف PDF أو Word أو نصي، حتى 5 ميغابايت',
+  'apply.submit': 'إرسال الطلب',
+  'apply.submitting': 'جارٍ الإرسال...',
+  'apply.title': 'التقديم على {title}',
+
+  'applyMethod.email': 'عبر البريد الإلكتروني',
+  'applyMethod.link': 'على موقع الشركة',
+  'applyMethod.onsite': 'على NicheJobs',
+
+  'board.allLevels': 'كل المستويات',
+  'board.allLocations': 'كل المواقع',
+  'board.allTypes': 'كل الأنواع',
+  'board.allWorkplaces': 'كل أماكن العمل',
+  'board.anySalary': 'أي راتب',
+  'board.cityOnly': 'المدينة فقط',
+  'board.clearFilters': 'مسح عوامل التصفية',
+  'board.currency': 'عرض الرواتب بعملة',
+  'board.distance': 'المسافة',
+  'board.empty.body': 'جرّب تعديل معايير البحث أو إزالة بعض عوامل التصفية.',
+  'board.empty.clearAll': 'مسح جميع عوامل التصفية',
+  'board.empty.title': 'لم يتم العثور على وظائف',
+  'board.experience': 'الخبرة',
+  'board.jobType': 'نوع الوظيفة',
+  'board.jobsFound': { zero: 'لا توجد وظائف', one: 'وظيفة واحدة', two: 'وظيفتان', few: '{count} وظائف', many: '{count} وظيفة', other: '{count} وظيفة' },
+  'board.location': 'الموقع',
+  'board.minimumSalary': 'الحد الأدنى للراتب السنوي',
+  'board.newJobs': { zero: 'لا وظائف جديدة', one: 'وظيفة جديدة واحدة — عرض', two: 'وظيفتان جديدتان — عرض', few: '{count} وظائف جديدة — عرض', many: '{count} وظيفة جديدة — عرض', other: '{count} وظيفة جديدة — عرض' },
+  'board.nextPage': 'التالي',
+  'board.previousPage': 'السابق',
+  'board.saveSearch': 'حفظ البحث',
+  'board.searchCapped': 'تم البحث في أحدث {count} وظيفة تحتوي على كلماتك فقط. أضف كلمات أو عوامل تصفية لتضييق النتائج.',
+  'board.searchPlaceholder': 'ابحث عن وظائف أو مهارات أو "عبارات محددة" أو -استبعاد...',
+  'board.showExpired': 'عرض الوظائف المنتهية',
+  'board.showing': 'عرض {first}-{last} من {total} وظيفة',
+  'board.sortNewest': 'الأحدث أولاً',
+  'board.sortSalary': 'الأعلى راتباً',
+  'board.withinKm': 'ضمن {distance} كم',
+  'board.workplace': 'مكان العمل',
+
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.delete': 'حذف',
+  'common.error': 'خطأ',
+  'common.loading': 'جارٍ التحميل...',
+  'common.moreTags': '+{count} أخرى',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.success': 'تم بنجاح',
+
+  'company.about': 'نبذة عن الشركة',
+  'company.aboutPlaceholder': 'ما تقوم به الشركة ورسالتها وثقافتها...',
+  'company.addNew': 'أضف "{name}" كشركة جديدة',
+  'company.edit': 'تعديل الملف',
+  'company.employees': '{size} موظف',
+  'company.errors.logoSize': 'يجب ألا يتجاوز حجم الشعار 1 ميغابايت',
+  'company.industry': 'المجال',
+  'company.industryPlaceholder': 'مثال: تقنيات المناخ',
+  'company.logo': 'الشعار',
+  'company.markVerified': 'صاحب عمل موثّق',
+  'company.name': 'اسم الشركة',
+  'company.new': '(جديدة)',
+  'company.newProfile': 'ملف شركة جديد لـ {name}',
+  'company.newProfileHint': 'يظهر في صفحة الشركة وبجانب كل وظائفها. يمكنك ترك هذه الحقول فارغة.',
+  'company.noMatches': 'لا تطابق أي من شركاتك',
+  'company.noOpenJobs': 'لا توجد وظائف شاغرة حالياً',
+  'company.openJobs': { zero: 'لا توجد وظائف شاغرة', one: 'وظيفة شاغرة واحدة', two: 'وظيفتان شاغرتان', few: '{count} وظائف شاغرة', many: '{count} وظيفة شاغرة', other: '{count} وظيفة شاغرة' },
+  'company.search': 'ابحث في شركاتك...',
+  'company.selectSize': 'اختر الحجم',
+  'company.size': 'حجم الشركة',
+  'company.verified': 'موثّقة',
+  'company.viewProfile': 'عرض ملف الشركة',
+  'company.website': 'الموقع الإلكتروني',
+
+  'compare.clear': 'مسح الاختيار',
+  'compare.differs': 'مختلف',
+  'compare.export': 'تصدير CSV',
+  'compare.field.benefits': 'المزايا',
+  'compare.field.employmentType': 'نوع التوظيف',
+  'compare.field.experienceLevel': 'مستوى الخبرة',
+  'compare.field.expires': 'تاريخ الإغلاق',
+  'compare.field.location': 'الموقع',
+  'compare.field.postedSalary': 'الراتب كما نُشر',
+  'compare.field.salary': 'الراتب السنوي',
+  'compare.field.tags': 'الوسوم',
+  'compare.noExpiry': 'بلا تاريخ إغلاق',
+  'compare.none': 'غير مذكور',
+  'compare.open': 'قارن',
+  'compare.openCount': 'قارن ({count})',
+  'compare.print': 'طباعة',
+  'compare.selected': 'تم اختيار {count} من {max} وظائف',
+  'compare.subtitle': 'تظهر الرواتب سنوياً بعملتك. الصفوف المميّزة هي حيث تختلف الوظائف.',
+  'compare.title': { zero: 'لا وظائف للمقارنة', one: 'مقارنة وظيفة واحدة', two: 'مقارنة وظيفتين', few: 'مقارنة {count} وظائف', many: 'مقارنة {count} وظيفة', other: 'مقارنة {count} وظيفة' },
+  'compare.toggle': 'مقارنة',
+  'compare.tooFew': 'اختر وظيفتين على الأقل للمقارنة.',
+
+  'digest.footer': 'تصلك هذه الرسالة لأنك حفظت عمليات البحث هذه على NicheJobs.',
+  'digest.intro': 'إليك أحدث الوظائف المطابقة لعمليات البحث المحفوظة.',
+  'digest.job': '{title} لدى {company} ({location})',
+  'digest.more': '...و{count} أخرى',
+  'digest.searchHeading': { zero: '{name}: لا توجد وظائف جديدة', one: '{name}: وظيفة جديدة واحدة', two: '{name}: وظيفتان جديدتان', few: '{name}: {count} وظائف جديدة', many: '{name}: {count} وظيفة جديدة', other: '{name}: {count} وظيفة جديدة' },
+  'digest.seeAll': 'عرض الكل: {url}',
+  'digest.subject': 'NicheJobs: {title}',
+  'digest.summary': '{name}: {count} جديدة',
+  'digest.title': { zero: 'لا توجد وظائف جديدة لعمليات البحث المحفوظة', one: 'وظيفة جديدة واحدة لعمليات البحث المحفوظة', two: 'وظيفتان جديدتان لعمليات البحث المحفوظة', few: '{count} وظائف جديدة لعمليات البحث المحفوظة', many: '{count} وظيفة جديدة لعمليات البحث المحفوظة', other: '{count} وظيفة جديدة لعمليات البحث المحفوظة' },
+
+  'employmentType.Contract': 'عقد',
+  'employmentType.Freelance': 'عمل حر',
+  'employmentType.Full-time': 'دوام كامل',
+  'employmentType.Internship': 'تدريب',
+  'employmentType.Part-time': 'دوام جزئي',
+
+  'experienceLevel.Entry Level': 'مبتدئ',
+  'experienceLevel.Executive': 'تنفيذي',
+  'experienceLevel.Lead/Principal': 'قائد/رئيسي',
+  'experienceLevel.Mid Level': 'متوسط',
+  'experienceLevel.Senior Level': 'خبير',
+
+  'filters.allJobs': 'كل الوظائف',
+  'filters.salaryAtLeast': '{amount}+',
+  'filters.withinRadius': 'ضمن {distance} كم من {place}',
+
+  'header.admin': 'الإدارة',
+  'header.myApplications': 'طلباتي',
+  'header.myPostings': 'إعلاناتي',
+  'header.postJob': 'نشر وظيفة',
+  'header.reviewQueue': 'قائمة المراجعة',
+  'header.savedJobs': 'الوظائف المحفوظة',
+  'header.signIn': 'تسجيل الدخول',
+  'header.signOut': 'تسجيل الخروج',
+  'header.tagline': 'اكتشف فرصاً متخصصة',
+
+  'jobDetails.anyTimezone': 'متاحة للمرشحين في أي منطقة زمنية',
+  'jobDetails.applied': 'تم التقديم',
+  'jobDetails.appliedOn': 'قدّمت في {date}',
+  'jobDetails.applyNow': 'قدّم الآن',
+  'jobDetails.applyOnsite': 'قدّم على NicheJobs بسيرتك الذاتية',
+  'jobDetails.applyViaEmail': 'التقديم عبر البريد الإلكتروني',
+  'jobDetails.applyViaLink': 'التقديم على موقع الشركة',
+  'jobDetails.benefits': 'المزايا',
+  'jobDetails.currentStage': 'المرحلة الحالية:',
+  'jobDetails.description': 'وصف الوظيفة',
+  'jobDetails.emailHint': 'سيفتح هذا برنامج البريد الإلكتروني مع سطر موضوع معبأ مسبقاً',
+  'jobDetails.emailSubject': 'طلب توظيف لوظيفة {title} لدى {company}',
+  'jobDetails.expiredOn': 'انتهى الإعلان في {date}',
+  'jobDetails.expiresOn': 'ينتهي الإعلان في {date}',
+  'jobDetails.postedOn': 'نُشرت الوظيفة في {date}',
+  'jobDetails.readyToApply': 'هل أنت مستعد للتقديم؟',
+  'jobDetails.requirements': 'المتطلبات',
+  'jobDetails.sendEmail': 'إرسال بريد إلكتروني',
+  'jobDetails.stageSince': 'منذ {date}',
+  'jobDetails.timezones': 'متاحة للمرشحين في: {timezones}',
+  'jobDetails.unavailable.draft': 'هذا الإعلان مسودة ولا يستقبل طلبات بعد.',
+  'jobDetails.unavailable.expired': 'انتهت صلاحية هذا الإعلان ولم يعد يستقبل طلبات.',
+  'jobDetails.unavailable.filled': 'تم شغل هذه الوظيفة.',
+  'jobDetails.unavailable.paused': 'أوقف صاحب العمل هذا الإعلان مؤقتاً ولا يستقبل طلبات حالياً.',
+  'jobDetails.unavailable.pending': 'هذا الإعلان بانتظار مراجعة المشرف.',
+  'jobDetails.unavailable.rejected': 'رفض أحد المشرفين هذا الإعلان.',
+  'jobDetails.updatedOn': 'آخر تحديث في {date}',
+
+  'jobStatus.active': 'نشط',
+  'jobStatus.draft': 'مسودة',
+  'jobStatus.expired': 'منتهي',
+  'jobStatus.filled': 'مشغولة',
+  'jobStatus.paused': 'متوقف مؤقتاً',
+  'jobStatus.pending': 'قيد المراجعة',
+  'jobStatus.rejected': 'مرفوض',
+
+  'language.title': 'اللغة',
+
+  'location.distanceAway': '(على بُعد {distance} كم)',
+  'location.noPlaces': 'لا توجد أماكن مطابقة',
+  'location.searchPlaces': 'ابحث عن مدينة...',
+
+  'login.body': 'سجّل الدخول أو أنشئ حساباً للمتابعة. ستعود إلى هنا مباشرة بعد ذلك.',
+  'login.cannotPost': 'لا يمكن لحسابك نشر وظائف بعد. اطلب من أحد المسؤولين صلاحية صاحب العمل.',
+  'login.cannotPostTitle': 'تم تسجيل دخولك',
+  'login.reason.apply': 'سجّل الدخول للتقديم',
+  'login.reason.postJob': 'سجّل الدخول لنشر وظيفة',
+  'login.reason.saveJob': 'سجّل الدخول لحفظ هذه الوظيفة',
+  'login.reason.saveSearch': 'سجّل الدخول لحفظ هذا البحث',
+  'login.signIn': 'سجّل الدخول للمتابعة',
+
+  'markdown.empty': 'لا يوجد ما يُعاين',
+  'markdown.hint': 'Markdown: **غامق**، *مائل*، - قوائم، # عناوين، [روابط](https://…)',
+  'markdown.preview': 'معاينة',
+  'markdown.write': 'كتابة',
+
+  'moderation.annualSalary': '{amount} سنوياً',
+  'moderation.approve': 'موافقة',
+  'moderation.decision': 'القرار',
+  'moderation.dismissReports': 'تجاهل',
+  'moderation.empty': 'لا شيء للمراجعة حالياً',
+  'moderation.flag.bannedWord': 'عبارة محظورة',
+  'moderation.flag.freeMailAddress': 'بريد إلكتروني مجاني',
+  'moderation.flag.salaryOutlier': 'راتب غير معتاد',
+  'moderation.flag.suspiciousLink': 'رابط مريب',
+  'moderation.flags': 'العلامات',
+  'moderation.lastReported': 'آخر بلاغ',
+  'moderation.noFlags': 'لا توجد علامات',
+  'moderation.noReports': 'لا توجد بلاغات مفتوحة',
+  'moderation.notification.approvedBody': 'تمت الموافقة على "{title}" وهو الآن على اللوحة.',
+  'moderation.notification.approvedTitle': 'إعلانك منشور الآن',
+  'moderation.notification.rejectedBody': 'تم رفض "{title}": {reason}',
+  'moderation.notification.rejectedTitle': 'لم تتم الموافقة على إعلانك',
+  'moderation.posting': 'الإعلان',
+  'moderation.queueTab': 'بانتظار المراجعة ({count})',
+  'moderation.reason': 'السبب',
+  'moderation.reasonPlaceholder': 'أخبر الناشر بما يجب تغييره. ستظهر له هذه الرسالة.',
+  'moderation.reject': 'رفض',
+  'moderation.rejectTitle': 'رفض "{title}"',
+  'moderation.reportCount': { zero: '{category}: لا بلاغات', one: '{category}: بلاغ واحد', two: '{category}: بلاغان', few: '{category}: {count} بلاغات', many: '{category}: {count} بلاغاً', other: '{category}: {count} بلاغ' },
+  'moderation.reports': 'البلاغات',
+  'moderation.reportsTab': 'مُبلغ عنها ({count})',
+  'moderation.submitted': 'تاريخ الإرسال',
+  'moderation.subtitle': 'تبقى الإعلانات الجديدة خارج اللوحة حتى تتم الموافقة عليها. تُرفع العلامات تلقائياً وهي مجرد تنبيهات.',
+  'moderation.takeDown': 'إزالة',
+  'moderation.title': { zero: 'قائمة المراجعة (لا إعلانات)', one: 'قائمة المراجعة (إعلان واحد)', two: 'قائمة المراجعة (إعلانان)', few: 'قائمة المراجعة ({count} إعلانات)', many: 'قائمة المراجعة ({count} إعلاناً)', other: 'قائمة المراجعة ({count} إعلان)' },
+  'moderation.view': 'عرض الإعلان',
+
+  'myApplications.appliedVia': '{method} · قدّمت في {date}',
+  'myApplications.empty.body': 'تُتتبَّع هنا الوظائف التي تتقدم إليها لتتمكن من متابعتها.',
+  'myApplications.empty.title': 'لا توجد طلبات بعد',
+  'myApplications.notesPlaceholder': 'ملاحظات: جهات الاتصال، مواعيد المقابلات، المتابعات...',
+  'myApplications.saveNotes': 'حفظ الملاحظات',
+  'myApplications.title': 'طلباتي ({count})',
+
+  'myPostings.applications': 'الطلبات ({count})',
+  'myPostings.awaitingReview': 'بانتظار مراجعة المشرف. سنُعلمك عند الموافقة عليه.',
+  'myPostings.changeStatus': 'تغيير الحالة',
+  'myPostings.deleteBody': 'ستتم إزالة "{title}" من اللوحة ومن الوظائف المحفوظة لدى كل المرشحين. لا يمكن التراجع عن ذلك.',
+  'myPostings.deleteTitle': 'حذف هذا الإعلان؟',
+  'myPostings.edit': 'تعديل',
+  'myPostings.editAndResubmit': 'تعديل وإعادة الإرسال',
+  'myPostings.empty.body': 'ستظهر هنا الوظائف التي تنشرها لتتمكن من تعديلها أو إيقافها أو تجديدها أو إزالتها.',
+  'myPostings.empty.title': 'لا توجد إعلانات بعد',
+  'myPostings.expiredOn': 'انتهى في {date}',
+  'myPostings.expiresOn': 'ينتهي في {date}',
+  'myPostings.loading': 'جارٍ تحميل إعلاناتك...',
+  'myPostings.markFilled': 'تحديد كمشغولة',
+  'myPostings.pause': 'إيقاف مؤقت',
+  'myPostings.postedOn': 'نُشر في {date}',
+  'myPostings.publish': 'نشر',
+  'myPostings.renew': { zero: 'تجديد', one: 'تجديد ليوم واحد', two: 'تجديد ليومين', few: 'تجديد لمدة {count} أيام', many: 'تجديد لمدة {count} يوماً', other: 'تجديد لمدة {count} يوم' },
+  'myPostings.reopen': 'إعادة الفتح',
+  'myPostings.title': 'إعلاناتي ({count})',
+
+  'notifications.empty': 'لا توجد إشعارات جديدة.',
+  'notifications.markAllRead': 'تحديد الكل كمقروء',
+  'notifications.title': 'الإشعارات',
+
+  'offline.banner': 'أنت غير متصل. تُعرض الوظائف من زيارتك الأخيرة، وستتم مزامنة الوظائف المحفوظة عند عودة الاتصال.',
+
+  'postJob.addTag': 'إضافة',
+  'postJob.addTimezone': 'أضف منطقة زمنية',
+  'postJob.anyTimezone': 'اتركها فارغة لقبول المرشحين من أي منطقة زمنية.',
+  'postJob.applicationEmail': 'البريد الإلكتروني للتقديم',
+  'postJob.applicationLink': 'رابط التقديم',
+  'postJob.applicationMethod': 'كيف يتقدم المرشحون؟',
+  'postJob.basedIn': 'المقر (اختياري)',
+  'postJob.benefits': 'المزايا',
+  'postJob.benefitsPlaceholder': 'تأمين صحي، عمل عن بُعد، حصص ملكية، إلخ...',
+  'postJob.company': 'الشركة',
+  'postJob.companyPlaceholder': 'مثال: TechCorp Inc.',
+  'postJob.currency': 'العملة',
+  'postJob.description': 'وصف الوظيفة',
+  'postJob.descriptionPlaceholder': 'صف الدور والمسؤوليات وما تبحث عنه...',
+  'postJob.editTitle': 'تعديل الوظيفة',
+  'postJob.employmentType': 'نوع التوظيف',
+  'postJob.errors.email': 'يرجى إدخال بريد إلكتروني للتقديم',
+  'postJob.errors.link': 'يرجى إدخال رابط للتقديم',
+  'postJob.errors.post': 'تعذر نشر الوظيفة. يرجى المحاولة مرة أخرى.',
+  'postJob.errors.required': 'يرجى ملء جميع الحقول المطلوبة',
+  'postJob.errors.update': 'تعذر تحديث الوظيفة. يرجى المحاولة مرة أخرى.',
+  'postJob.experienceLevel': 'مستوى الخبرة',
+  'postJob.expires': 'تاريخ انتهاء الإعلان',
+  'postJob.jobTitle': 'المسمى الوظيفي',
+  'postJob.jobTitlePlaceholder': 'مثال: مطور React أول',
+  'postJob.location': 'الموقع',
+  'postJob.locationPlaceholder': 'ابحث عن مدينة',
+  'postJob.methodEmail': 'التقديم بالبريد الإلكتروني',
+  'postJob.methodLink': 'رابط خارجي',
+  'postJob.methodOnsite': 'التقديم على NicheJobs',
+  'postJob.noExpiry': 'بدون تاريخ انتهاء',
+  'postJob.noPlace': 'بدون موقع',
+  'postJob.onsiteHint': 'يملأ المرشحون نموذجاً قصيراً مع سيرتهم الذاتية، ويمكنك مراجعة كل طلب من إعلاناتي.',
+  'postJob.publish': 'نشر',
+  'postJob.rejectedBecause': 'رفض أحد المشرفين هذا الإعلان:',
+  'postJob.requirements': 'المتطلبات',
+  'postJob.requirementsPlaceholder': 'اذكر المهارات والخبرات والمؤهلات المطلوبة...',
+  'postJob.resubmit': 'إعادة الإرسال للمراجعة',
+  'postJob.reviewNotice': 'يراجع أحد المشرفين الإعلانات الجديدة قبل ظهورها على اللوحة.',
+  'postJob.salaryMax': 'الحد الأقصى للراتب',
+  'postJob.salaryMin': 'الحد الأدنى للراتب',
+  'postJob.salaryPeriod': 'يُدفع',
+  'postJob.saveAsDraft': 'حفظ كمسودة',
+  'postJob.saveChanges': 'حفظ التغييرات',
+  'postJob.saveDraft': 'حفظ المسودة',
+  'postJob.selectLevel': 'اختر المستوى',
+  'postJob.selectType': 'اختر النوع',
+  'postJob.submit': 'نشر الوظيفة',
+  'postJob.tags': 'المهارات والوسوم',
+  'postJob.tagsPlaceholder': 'أضف مهارات مثل React وPython وغيرها',
+  'postJob.timezones': 'المناطق الزمنية المسموح بها',
+  'postJob.title': 'نشر وظيفة جديدة',
+  'postJob.workplaceType': 'مكان العمل',
+
+  'report.action': 'الإبلاغ عن هذه الوظيفة',
+  'report.anonymous': 'سيتحقق المشرفون من الأمر. لن يعرف صاحب العمل من أبلغ عن الوظيفة.',
+  'report.category.discriminatory': 'تمييزي',
+  'report.category.expired': 'منتهية أو تم شغلها',
+  'report.category.scam': 'احتيال',
+  'report.category.wrongInfo': 'معلومات خاطئة',
+  'report.categoryDescription.discriminatory': 'تستبعد أشخاصاً بسبب العمر أو الجنس أو الدين أو الأصل أو ما شابه',
+  'report.categoryDescription.expired': 'لم تعد الوظيفة متاحة',
+  'report.categoryDescription.scam': 'تطلب مالاً أو بيانات شخصية، أو تبدو الوظيفة وهمية',
+  'report.categoryDescription.wrongInfo': 'الراتب أو الموقع أو الشركة أو تفاصيل أخرى غير صحيحة',
+  'report.details': 'التفاصيل (اختياري)',
+  'report.detailsPlaceholder': 'أي شيء يساعد المشرفين على التحقق، مثل المشكلة أو أين رأيتها',
+  'report.notification.hiddenBody': 'أبلغ عدة مستخدمين عن "{title}" وهو مخفي حتى يراجعه أحد المشرفين.',
+  'report.notification.hiddenTitle': 'إعلانك قيد المراجعة',
+  'report.reported': 'تم الإبلاغ',
+  'report.sending': 'جارٍ الإرسال...',
+  'report.submit': 'إرسال البلاغ',
+  'report.title': 'الإبلاغ عن "{title}"',
+
+  'role.admin': 'مدير',
+  'role.adminDescription': 'يمنح الأدوار ويوثّق الشركات',
+  'role.candidate': 'مرشح',
+  'role.candidateDescription': 'يبحث عن الوظائف ويحفظها ويتقدم إليها',
+  'role.employer': 'صاحب عمل',
+  'role.employerDescription': 'ينشر الوظائف ويراجع طلباتها',
+  'role.moderator': 'مشرف',
+  'role.moderatorDescription': 'يراجع الإعلانات ويزيل المخالفة منها',
+
+  'salary.approximately': '≈ {range}',
+  'salary.from': '{min}+{suffix}',
+  'salary.notSpecified': 'الراتب غير محدد',
+  'salary.range': '{min} - {max}{suffix}',
+  'salary.suffix.day': '/يوم',
+  'salary.suffix.hour': '/ساعة',
+  'salary.suffix.month': '/شهر',
+  'salary.suffix.year': '/سنة',
+  'salary.upTo': 'حتى {max}{suffix}',
+
+  'salaryPeriod.day': 'يومياً',
+  'salaryPeriod.hour': 'بالساعة',
+  'salaryPeriod.month': 'شهرياً',
+  'salaryPeriod.year': 'سنوياً',
+
+  'saveSearch.hint': 'سترى الوظائف المطابقة الجديدة في الشريط العلوي وستصلك خلاصة بالبريد الإلكتروني.',
+  'saveSearch.name': 'الاسم',
+  'saveSearch.namePlaceholder': 'مثال: وظائف React عن بُعد',
+  'saveSearch.title': 'حفظ هذا البحث',
+
+  'savedJobs.allCollections': 'كل المجموعات',
+  'savedJobs.applyBy': 'التقديم قبل {date}',
+  'savedJobs.clearReminder': 'إزالة التذكير',
+  'savedJobs.collection': 'المجموعة',
+  'savedJobs.collectionPlaceholder': 'أضِف إلى مجموعة، مثل: شركات الأحلام',
+  'savedJobs.empty.body': 'ابدأ بتصفح الوظائف واحفظ ما يهمك منها لتجده هنا.',
+  'savedJobs.empty.title': 'لا توجد وظائف محفوظة بعد',
+  'savedJobs.emptyCollection': 'لا توجد وظائف محفوظة في هذه المجموعة.',
+  'savedJobs.noCollection': 'خارج أي مجموعة',
+  'savedJobs.noReminder': 'ضبط تذكير بموعد التقديم',
+  'savedJobs.notesPlaceholder': 'ملاحظات خاصة: من رشّحك، وما تودّ ذكره...',
+  'savedJobs.reminder.body': 'خططت للتقديم على وظيفة {title} لدى {company} قبل {date}.',
+  'savedJobs.reminder.title': 'حان وقت التقديم',
+  'savedJobs.saveDetails': 'حفظ التغييرات',
+  'savedJobs.savedOn': 'حُفظت في {date}',
+  'savedJobs.sort.deadline': 'الموعد النهائي',
+  'savedJobs.sort.salary': 'الراتب الأعلى',
+  'savedJobs.sort.saved': 'المحفوظة مؤخراً',
+  'savedJobs.sortBy': 'ترتيب الوظائف المحفوظة',
+  'savedJobs.title': 'الوظائف المحفوظة ({count})',
+
+  'savedSearches.button': 'عمليات البحث المحفوظة',
+  'savedSearches.delete': 'حذف البحث المحفوظ',
+  'savedSearches.empty': 'استخدم "حفظ البحث" في اللوحة لتلقي تنبيهات بالوظائف الجديدة المطابقة.',
+  'savedSearches.newCount': '{count} جديدة',
+  'savedSearches.title': 'عمليات البحث المحفوظة',
+
+  'toast.applicationSent': 'تم إرسال الطلب',
+  'toast.applicationSentDescription': 'سيراجع صاحب العمل طلبك',
+  'toast.changesSaved': 'تم حفظ التغييرات',
+  'toast.companyNotFound': 'تعذر العثور على هذه الشركة',
+  'toast.companyUpdated': 'تم تحديث الملف',
+  'toast.companyUpdatedDescription': 'تم حفظ ملف {name}',
+  'toast.deletePostingFailed': 'تعذر حذف الإعلان',
+  'toast.deleteSearchFailed': 'تعذر حذف البحث المحفوظ',
+  'toast.draftSaved': 'تم حفظ المسودة. انشرها من إعلاناتي عندما تكون جاهزاً.',
+  'toast.jobNotFound': 'تعذر العثور على هذه الوظيفة',
+  'toast.jobPosted': 'تم نشر الوظيفة بنجاح!',
+  'toast.jobPublished': 'تم نشر الوظيفة',
+  'toast.jobSaved': 'تم حفظ الوظيفة',
+  'toast.jobSavedDescription': 'أُضيفت الوظيفة إلى الوظائف المحفوظة',
+  'toast.jobSubmitted': 'تم إرسال الوظيفة. سيراجعها أحد المشرفين قبل نشرها.',
+  'toast.jobUnsaved': 'أُلغي حفظ الوظيفة',
+  'toast.jobUnsavedDescription': 'أُزيلت الوظيفة من الوظائف المحفوظة',
+  'toast.jobUpdated': 'تم تحديث الوظيفة بنجاح!',
+  'toast.loadJobsFailed': 'تعذر تحميل الوظائف',
+  'toast.loadPostingsFailed': 'تعذر تحميل إعلاناتك',
+  'toast.moveApplicationFailed': 'تعذر نقل الطلب',
+  'toast.notYourPosting': 'يمكنك إدارة إعلاناتك فقط',
+  'toast.notesSaved': 'تم حفظ الملاحظات',
+  'toast.notesSavedDescription': 'تم تحديث ملاحظات "{title}"',
+  'toast.posterNotified': 'تم إعلام ناشر "{title}"',
+  'toast.postingApproved': 'تمت الموافقة على الإعلان',
+  'toast.postingDeleted': 'تم حذف الإعلان',
+  'toast.postingDeletedDescription': 'تمت إزالة الوظيفة',
+  'toast.postingFilled': 'تم تحديد الإعلان كمشغول',
+  'toast.postingPaused': 'تم إيقاف الإعلان مؤقتاً',
+  'toast.postingRejected': 'تم رفض الإعلان',
+  'toast.postingRenewed': 'تم تجديد الإعلان',
+  'toast.postingReopened': 'أُعيد فتح الإعلان',
+  'toast.postingUpdated': 'تم تحديث "{title}"',
+  'toast.removeApplicationFailed': 'تعذر إزالة الطلب',
+  'toast.reportFailed': 'تعذر إرسال البلاغ',
+  'toast.reportSent': 'شكراً على بلاغك',
+  'toast.reportSentDescription': 'سيراجع أحد المشرفين الوظيفة',
+  'toast.reportsDismissed': 'تم تجاهل البلاغات',
+  'toast.reportsDismissedDescription': 'يبقى "{title}" على اللوحة',
+  'toast.reviewFailed': 'تعذر حفظ قرار المراجعة',
+  'toast.saveJobFailed': 'تعذر حفظ الوظيفة',
+  'toast.saveNotesFailed': 'تعذر حفظ ملاحظاتك',
+  'toast.saveSearchFailed': 'تعذر حفظ البحث',
+  'toast.savedOffline': 'أنت غير متصل. ستتم مزامنة التغيير عند عودة الاتصال.',
+  'toast.savesSynced': 'تمت مزامنة الوظائف المحفوظة',
+  'toast.savesSyncedDescription': { zero: 'لم يُحفظ أي تغيير', one: 'تم حفظ تغيير واحد أُجري دون اتصال', two: 'تم حفظ تغييرين أُجريا دون اتصال', few: 'تم حفظ {count} تغييرات أُجريت دون اتصال', many: 'تم حفظ {count} تغييراً أُجري دون اتصال', other: 'تم حفظ {count} تغيير أُجري دون اتصال' },
+  'toast.searchSaved': 'تم حفظ البحث',
+  'toast.searchSavedDescription': 'سنُعلمك بالوظائف الجديدة المطابقة لـ "{name}"',
+  'toast.submittedForReview': 'أُرسلت للمراجعة',
+  'toast.updateCompanyFailed': 'تعذر تحديث ملف الشركة',
+  'toast.updatePostingFailed': 'تعذر تحديث الإعلان',
+  'toast.updateSavedJobFailed': 'تعذّر تحديث الوظيفة المحفوظة. يُرجى المحاولة مرة أخرى.',
+  'toast.updateStatusFailed': 'تعذر تحديث حالة الطلب',
+
+  'trackedStatus.accepted': 'مقبول',
+  'trackedStatus.applied': 'تم التقديم',
+  'trackedStatus.heardBack': 'تلقيت رداً',
+  'trackedStatus.interviewing': 'في مرحلة المقابلات',
+  'trackedStatus.offer': 'عرض',
+  'trackedStatus.rejected': 'مرفوض',
+  'trackedStatus.withdrawn': 'منسحب',
+
+  'workplaceType.hybrid': 'هجين',
+  'workplaceType.onsite': 'في المقر',
+  'workplaceType.remote': 'عن بُعد'
+}
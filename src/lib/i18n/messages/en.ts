@@ -0,0 +1,501 @@
+// English UI strings. This is the reference catalog: every other locale
+// provides the same keys, checked by the Messages type.
+
+// Plural messages are picked with Intl.PluralRules; only `other` is required
+export interface PluralMessage {
+  zero?: string
+  one?: string
+  two?: string
+  few?: string
+  many?: string
+  other: string
+}
+
+export type Message = string | PluralMessage
+
+export const en = {
+  'admin.errors.load': 'Failed to load users',
+  'admin.errors.save': 'Failed to update roles',
+  'admin.joined': 'Joined {date}',
+  'admin.noUsers': 'No matching users',
+  'admin.searchPlaceholder': 'Search by email or name...',
+  'admin.subtitle': 'Everyone can search and apply. Grant the other roles to let people post, moderate or administer the board.',
+  'admin.title': 'Users and roles',
+  'admin.toggleRole': '{role} role for {user}',
+  'admin.user': 'User',
+
+  'applicationStage.applied': 'Applied',
+  'applicationStage.hired': 'Hired',
+  'applicationStage.interview': 'Interview',
+  'applicationStage.offer': 'Offer',
+  'applicationStage.rejected': 'Rejected',
+  'applicationStage.screening': 'Screening',
+
+  'applications.empty.body': 'Candidates who apply through NicheJobs will show up here.',
+  'applications.empty.title': 'No applications yet',
+  'applications.jobAtCompany': '{title} at {company}',
+  'applications.noCoverLetter': 'No cover letter provided.',
+  'applications.resumeFailed': 'Failed to open the resume. Please try again.',
+  'applications.stageHistory': 'Stage history',
+  'applications.title': 'Applications ({count})',
+
+  'apply.coverLetter': 'Cover Letter',
+  'apply.coverLetterPlaceholder': "Tell the employer why you're a great fit...",
+  'apply.email': 'Email',
+  'apply.errors.contact': 'Please provide your name and email',
+  'apply.errors.resume': 'Please attach your resume',
+  'apply.errors.resumeSize': 'Resumes must be 5 MB or smaller',
+  'apply.errors.submit': 'Failed to submit your application. Please try again.',
+  'apply.name': 'Full Name',
+  'apply.resume': 'Resume',
+  'apply.resumeHint': 'PDF, Word or text file, up to 5 MB',
+  'apply.submit': 'Submit Application',
+  'apply.submitting': 'Submitting...',
+  'apply.title': 'Apply for {title}',
+
+  'applyMethod.email': 'By email',
+  'applyMethod.link': 'On company site',
+  'applyMethod.onsite': 'On NicheJobs',
+
+  'board.allLevels': 'All Levels',
+  'board.allLocations': 'All Locations',
+  'board.allTypes': 'All Types',
+  'board.allWorkplaces': 'All Workplaces',
+  'board.anySalary': 'Any Salary',
+  'board.cityOnly': 'City only',
+  'board.clearFilters': 'Clear Filters',
+  'board.currency': 'Show salaries in',
+  'board.distance': 'Distance',
+  'board.empty.body': 'Try adjusting your search criteria or clearing some filters.',
+  'board.empty.clearAll': 'Clear All Filters',
+  'board.empty.title': 'No jobs found',
+  'board.experience': 'Experience',
+  'board.jobType': 'Job Type',
+  'board.jobsFound': { one: '{count} Job Found', other: '{count} Jobs Found' },
+  'board.location': 'Location',
+  'board.minimumSalary': 'Minimum annual salary',
+  'board.newJobs': { one: '{count} new job — show', other: '{count} new jobs — show' },
+  'board.nextPage': 'Next',
+  'board.previousPage': 'Previous',
+  'board.saveSearch': 'Save search',
+  'board.searchCapped': 'Only the {count} newest jobs containing your words were searched. Add words or filters to narrow it down.',
+  'board.searchPlaceholder': 'Search jobs, skills, "exact phrases" or -exclude...',
+  'board.showExpired': 'Show expired jobs',
+  'board.showing': 'Showing {first}-{last} of {total} jobs',
+  'board.sortNewest': 'Newest first',
+  'board.sortSalary': 'Highest salary',
+  'board.withinKm': 'Within {distance} km',
+  'board.workplace': 'Workplace',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.error': 'Error',
+  'common.loading': 'Loading...',
+  'common.moreTags': '+{count} more',
+  'common.saving': 'Saving...',
+  'common.success': 'Success',
+
+  'company.about': 'About the company',
+  'company.aboutPlaceholder': 'What the company does, its mission and culture...',
+  'company.addNew': 'Add "{name}" as a new company',
+  'company.edit': 'Edit profile',
+  'company.employees': '{size} employees',
+  'company.errors.logoSize': 'Logos must be 1 MB or smaller',
+  'company.industry': 'Industry',
+  'company.industryPlaceholder': 'e.g. Climate tech',
+  'company.logo': 'Logo',
+  'company.markVerified': 'Verified employer',
+  'company.name': 'Company name',
+  'company.new': '(new)',
+  'company.newProfile': 'New company profile for {name}',
+  'company.newProfileHint': 'Shown on the company page and next to all of its jobs. You can leave these blank.',
+  'company.noMatches': 'None of your companies match',
+  'company.noOpenJobs': 'No open jobs right now',
+  'company.openJobs': { one: '{count} open job', other: '{count} open jobs' },
+  'company.search': 'Search your companies...',
+  'company.selectSize': 'Select size',
+  'company.size': 'Company size',
+  'company.verified': 'Verified',
+  'company.viewProfile': 'View company profile',
+  'company.website': 'Website',
+
+  'compare.clear': 'Clear selection',
+  'compare.differs': 'Differs',
+  'compare.export': 'Export CSV',
+  'compare.field.benefits': 'Benefits',
+  'compare.field.employmentType': 'Employment type',
+  'compare.field.experienceLevel': 'Experience level',
+  'compare.field.expires': 'Closes',
+  'compare.field.location': 'Location',
+  'compare.field.postedSalary': 'Salary as posted',
+  'compare.field.salary': 'Salary per year',
+  'compare.field.tags': 'Tags',
+  'compare.noExpiry': 'No closing date',
+  'compare.none': 'None listed',
+  'compare.open': 'Compare',
+  'compare.openCount': 'Compare ({count})',
+  'compare.print': 'Print',
+  'compare.selected': '{count} of {max} jobs selected',
+  'compare.subtitle': 'Salaries are shown per year in your currency. Highlighted rows are where the jobs differ.',
+  'compare.title': { one: 'Comparing {count} job', other: 'Comparing {count} jobs' },
+  'compare.toggle': 'Compare',
+  'compare.tooFew': 'Pick at least two jobs to compare.',
+
+  'digest.footer': 'You are receiving this because you saved these searches on NicheJobs.',
+  'digest.intro': 'Here are the latest jobs matching your saved searches.',
+  'digest.job': '{title} at {company} ({location})',
+  'digest.more': '...and {count} more',
+  'digest.searchHeading': { one: '{name}: {count} new job', other: '{name}: {count} new jobs' },
+  'digest.seeAll': 'See all: {url}',
+  'digest.subject': 'NicheJobs: {title}',
+  'digest.summary': '{name}: {count} new',
+  'digest.title': { one: '{count} new job for your saved searches', other: '{count} new jobs for your saved searches' },
+
+  'employmentType.Contract': 'Contract',
+  'employmentType.Freelance': 'Freelance',
+  'employmentType.Full-time': 'Full-time',
+  'employmentType.Internship': 'Internship',
+  'employmentType.Part-time': 'Part-time',
+
+  'experienceLevel.Entry Level': 'Entry Level',
+  'experienceLevel.Executive': 'Executive',
+  'experienceLevel.Lead/Principal': 'Lead/Principal',
+  'experienceLevel.Mid Level': 'Mid Level',
+  'experienceLevel.Senior Level': 'Senior Level',
+
+  'filters.allJobs': 'All jobs',
+  'filters.salaryAtLeast': '{amount}+',
+  'filters.withinRadius': 'Within {distance} km of {place}',
+
+  'header.admin': 'Admin',
+  'header.myApplications': 'My Applications',
+  'header.myPostings': 'My Postings',
+  'header.postJob': 'Post Job',
+  'header.reviewQueue': 'Review queue',
+  'header.savedJobs': 'Saved Jobs',
+  'header.signIn': 'Sign in',
+  'header.signOut': 'Sign out',
+  'header.tagline': 'Discover specialized opportunities',
+
+  'jobDetails.anyTimezone': 'Open to candidates in any timezone',
+  'jobDetails.applied': 'Applied',
+  'jobDetails.appliedOn': 'You applied on {date}',
+  'jobDetails.applyNow': 'Apply Now',
+  'jobDetails.applyOnsite': 'Apply on NicheJobs with your resume',
+  'jobDetails.applyViaEmail': 'Apply via email',
+  'jobDetails.applyViaLink': 'Apply on company website',
+  'jobDetails.benefits': 'Benefits',
+  'jobDetails.currentStage': 'Current stage:',
+  'jobDetails.description': 'Job Description',
+  'jobDetails.emailHint': 'This will open your email client with a pre-filled subject line',
+  'jobDetails.emailSubject': 'Application for {title} at {company}',
+  'jobDetails.expiredOn': 'Listing expired on {date}',
+  'jobDetails.expiresOn': 'Listing expires on {date}',
+  'jobDetails.postedOn': 'Job posted on {date}',
+  'jobDetails.readyToApply': 'Ready to Apply?',
+  'jobDetails.requirements': 'Requirements',
+  'jobDetails.sendEmail': 'Send Email',
+  'jobDetails.stageSince': 'since {date}',
+  'jobDetails.timezones': 'Open to candidates in: {timezones}',
+  'jobDetails.unavailable.draft': "This posting is a draft and isn't accepting applications yet.",
+  'jobDetails.unavailable.expired': 'This posting has expired and is no longer accepting applications.',
+  'jobDetails.unavailable.filled': 'This position has been filled.',
+  'jobDetails.unavailable.paused': 'The employer has paused this posting and is not accepting applications right now.',
+  'jobDetails.unavailable.pending': "This posting is waiting for a moderator's review.",
+  'jobDetails.unavailable.rejected': 'This posting was rejected by a moderator.',
+  'jobDetails.updatedOn': 'Last updated on {date}',
+
+  'jobStatus.active': 'Active',
+  'jobStatus.draft': 'Draft',
+  'jobStatus.expired': 'Expired',
+  'jobStatus.filled': 'Filled',
+  'jobStatus.paused': 'Paused',
+  'jobStatus.pending': 'In review',
+  'jobStatus.rejected': 'Rejected',
+
+  'language.title': 'Language',
+
+  'location.distanceAway': '({distance} km away)',
+  'location.noPlaces': 'No matching places',
+  'location.searchPlaces': 'Search cities...',
+
+  'login.body': "Sign in or create an account to continue. You'll come straight back here afterwards.",
+  'login.cannotPost': "Your account can't post jobs yet. Ask an admin for employer access.",
+  'login.cannotPostTitle': "You're signed in",
+  'login.reason.apply': 'Sign in to apply',
+  'login.reason.postJob': 'Sign in to post a job',
+  'login.reason.saveJob': 'Sign in to save this job',
+  'login.reason.saveSearch': 'Sign in to save this search',
+  'login.signIn': 'Sign In to Continue',
+
+  'markdown.empty': 'Nothing to preview',
+  'markdown.hint': 'Markdown: **bold**, *italic*, - lists, # headings, [links](https://…)',
+  'markdown.preview': 'Preview',
+  'markdown.write': 'Write',
+
+  'moderation.annualSalary': '{amount} a year',
+  'moderation.approve': 'Approve',
+  'moderation.decision': 'Decision',
+  'moderation.dismissReports': 'Dismiss',
+  'moderation.empty': 'Nothing to review right now',
+  'moderation.flag.bannedWord': 'Banned phrase',
+  'moderation.flag.freeMailAddress': 'Free email address',
+  'moderation.flag.salaryOutlier': 'Unusual salary',
+  'moderation.flag.suspiciousLink': 'Suspicious link',
+  'moderation.flags': 'Flags',
+  'moderation.lastReported': 'Last reported',
+  'moderation.noFlags': 'No flags',
+  'moderation.noReports': 'No open reports',
+  'moderation.notification.approvedBody': '"{title}" was approved and is now on the board.',
+  'moderation.notification.approvedTitle': 'Your posting is live',
+  'moderation.notification.rejectedBody': '"{title}" was rejected: {reason}',
+  'moderation.notification.rejectedTitle': 'Your posting was not approved',
+  'moderation.posting': 'Posting',
+  'moderation.queueTab': 'Pending ({count})',
+  'moderation.reason': 'Reason',
+  'moderation.reasonPlaceholder': "Tell the poster what to change. They'll see this message.",
+  'moderation.reject': 'Reject',
+  'moderation.rejectTitle': 'Reject "{title}"',
+  'moderation.reportCount': { one: '{category}: {count} report', other: '{category}: {count} reports' },
+  'moderation.reports': 'Reports',
+  'moderation.reportsTab': 'Reported ({count})',
+  'moderation.submitted': 'Submitted',
+  'moderation.subtitle': "New postings stay off the board until they're approved. Flags are raised automatically and are only hints.",
+  'moderation.takeDown': 'Take down',
+  'moderation.title': { one: 'Review queue ({count} posting)', other: 'Review queue ({count} postings)' },
+  'moderation.view': 'View posting',
+
+  'myApplications.appliedVia': '{method} · Applied {date}',
+  'myApplications.empty.body': 'Jobs you apply to are tracked here so you can follow up on them.',
+  'myApplications.empty.title': 'No applications yet',
+  'myApplications.notesPlaceholder': 'Notes: contacts, interview dates, follow-ups...',
+  'myApplications.saveNotes': 'Save notes',
+  'myApplications.title': 'My Applications ({count})',
+
+  'myPostings.applications': 'Applications ({count})',
+  'myPostings.awaitingReview': "Waiting for a moderator's review. You'll be notified when it's approved.",
+  'myPostings.changeStatus': 'Change status',
+  'myPostings.deleteBody': '"{title}" will be removed from the board and from every candidate\'s saved jobs. This can\'t be undone.',
+  'myPostings.deleteTitle': 'Delete this posting?',
+  'myPostings.edit': 'Edit',
+  'myPostings.editAndResubmit': 'Edit and resubmit',
+  'myPostings.empty.body': 'Jobs you post will show up here so you can edit, pause, renew or remove them.',
+  'myPostings.empty.title': 'No postings yet',
+  'myPostings.expiredOn': 'Expired on {date}',
+  'myPostings.expiresOn': 'Expires on {date}',
+  'myPostings.loading': 'Loading your postings...',
+  'myPostings.markFilled': 'Mark as filled',
+  'myPostings.pause': 'Pause',
+  'myPostings.postedOn': 'Posted on {date}',
+  'myPostings.publish': 'Publish',
+  'myPostings.renew': { one: 'Renew for {count} day', other: 'Renew for {count} days' },
+  'myPostings.reopen': 'Reopen',
+  'myPostings.title': 'My Postings ({count})',
+
+  'notifications.empty': "You're all caught up.",
+  'notifications.markAllRead': 'Mark all read',
+  'notifications.title': 'Notifications',
+
+  'offline.banner': "You're offline. Showing jobs from your last visit; saved jobs will sync when you're back online.",
+
+  'postJob.addTag': 'Add',
+  'postJob.addTimezone': 'Add a timezone',
+  'postJob.anyTimezone': 'Leave empty to accept candidates in any timezone.',
+  'postJob.applicationEmail': 'Application Email',
+  'postJob.applicationLink': 'Application Link',
+  'postJob.applicationMethod': 'How should candidates apply?',
+  'postJob.basedIn': 'Based in (optional)',
+  'postJob.benefits': 'Benefits',
+  'postJob.benefitsPlaceholder': 'Health insurance, remote work, equity, etc...',
+  'postJob.company': 'Company',
+  'postJob.companyPlaceholder': 'e.g. TechCorp Inc.',
+  'postJob.currency': 'Currency',
+  'postJob.description': 'Job Description',
+  'postJob.descriptionPlaceholder': "Describe the role, responsibilities, and what you're looking for...",
+  'postJob.editTitle': 'Edit Job',
+  'postJob.employmentType': 'Employment Type',
+  'postJob.errors.email': 'Please provide an application email',
+  'postJob.errors.link': 'Please provide an application link',
+  'postJob.errors.post': 'Failed to post job. Please try again.',
+  'postJob.errors.required': 'Please fill in all required fields',
+  'postJob.errors.update': 'Failed to update job. Please try again.',
+  'postJob.experienceLevel': 'Experience Level',
+  'postJob.expires': 'Listing Expires',
+  'postJob.jobTitle': 'Job Title',
+  'postJob.jobTitlePlaceholder': 'e.g. Senior React Developer',
+  'postJob.location': 'Location',
+  'postJob.locationPlaceholder': 'Search for a city',
+  'postJob.methodEmail': 'Email Application',
+  'postJob.methodLink': 'External Link',
+  'postJob.methodOnsite': 'Apply on NicheJobs',
+  'postJob.noExpiry': 'No expiry date',
+  'postJob.noPlace': 'No location',
+  'postJob.onsiteHint': 'Candidates fill in a short form with their resume, and you can review every application from My Postings.',
+  'postJob.publish': 'Publish',
+  'postJob.rejectedBecause': 'A moderator rejected this posting:',
+  'postJob.requirements': 'Requirements',
+  'postJob.requirementsPlaceholder': 'List the required skills, experience, and qualifications...',
+  'postJob.resubmit': 'Resubmit for review',
+  'postJob.reviewNotice': 'New postings are checked by a moderator before they appear on the board.',
+  'postJob.salaryMax': 'Maximum Salary',
+  'postJob.salaryMin': 'Minimum Salary',
+  'postJob.salaryPeriod': 'Paid',
+  'postJob.saveAsDraft': 'Save as Draft',
+  'postJob.saveChanges': 'Save Changes',
+  'postJob.saveDraft': 'Save Draft',
+  'postJob.selectLevel': 'Select level',
+  'postJob.selectType': 'Select type',
+  'postJob.submit': 'Post Job',
+  'postJob.tags': 'Skills & Tags',
+  'postJob.tagsPlaceholder': 'Add skills like React, Python, etc.',
+  'postJob.timezones': 'Allowed timezones',
+  'postJob.title': 'Post a New Job',
+  'postJob.workplaceType': 'Workplace',
+
+  'report.action': 'Report this job',
+  'report.anonymous': "Moderators will look into it. The employer won't see who reported the job.",
+  'report.category.discriminatory': 'Discriminatory',
+  'report.category.expired': 'Expired or already filled',
+  'report.category.scam': 'Scam or fraud',
+  'report.category.wrongInfo': 'Wrong information',
+  'report.categoryDescription.discriminatory': 'Excludes people based on age, gender, religion, origin or similar',
+  'report.categoryDescription.expired': "The position isn't open anymore",
+  'report.categoryDescription.scam': 'Asks for money or personal details, or the job seems fake',
+  'report.categoryDescription.wrongInfo': 'The salary, location, company or other details are wrong',
+  'report.details': 'Details (optional)',
+  'report.detailsPlaceholder': "Anything that helps moderators check, such as what's wrong or where you saw it",
+  'report.notification.hiddenBody': '"{title}" was reported by several users and is hidden until a moderator has reviewed it.',
+  'report.notification.hiddenTitle': 'Your posting is under review',
+  'report.reported': 'Reported',
+  'report.sending': 'Sending...',
+  'report.submit': 'Send report',
+  'report.title': 'Report "{title}"',
+
+  'role.admin': 'Admin',
+  'role.adminDescription': 'Grants roles and verifies companies',
+  'role.candidate': 'Candidate',
+  'role.candidateDescription': 'Searches, saves and applies to jobs',
+  'role.employer': 'Employer',
+  'role.employerDescription': 'Posts jobs and reviews their applications',
+  'role.moderator': 'Moderator',
+  'role.moderatorDescription': 'Reviews postings and takes down ones that break the rules',
+
+  'salary.approximately': '≈ {range}',
+  'salary.from': '{min}+{suffix}',
+  'salary.notSpecified': 'Salary not specified',
+  'salary.range': '{min} - {max}{suffix}',
+  'salary.suffix.day': '/day',
+  'salary.suffix.hour': '/hr',
+  'salary.suffix.month': '/mo',
+  'salary.suffix.year': '/yr',
+  'salary.upTo': 'Up to {max}{suffix}',
+
+  'salaryPeriod.day': 'Per day',
+  'salaryPeriod.hour': 'Per hour',
+  'salaryPeriod.month': 'Per month',
+  'salaryPeriod.year': 'Per year',
+
+  'saveSearch.hint': "You'll see new matches in the header and get a digest by email.",
+  'saveSearch.name': 'Name',
+  'saveSearch.namePlaceholder': 'e.g. Remote React jobs',
+  'saveSearch.title': 'Save this search',
+
+  'savedJobs.allCollections': 'All collections',
+  'savedJobs.applyBy': 'Apply by {date}',
+  'savedJobs.clearReminder': 'Remove reminder',
+  'savedJobs.collection': 'Collection',
+  'savedJobs.collectionPlaceholder': 'Add to a collection, e.g. Dream companies',
+  'savedJobs.empty.body': "Start browsing jobs and save the ones you're interested in to see them here.",
+  'savedJobs.empty.title': 'No saved jobs yet',
+  'savedJobs.emptyCollection': 'No saved jobs match this collection.',
+  'savedJobs.noCollection': 'Not in a collection',
+  'savedJobs.noReminder': 'Set an apply-by reminder',
+  'savedJobs.notesPlaceholder': 'Private notes: who referred you, what to mention...',
+  'savedJobs.reminder.body': 'You planned to apply to {title} at {company} by {date}.',
+  'savedJobs.reminder.title': 'Time to apply',
+  'savedJobs.saveDetails': 'Save changes',
+  'savedJobs.savedOn': 'Saved on {date}',
+  'savedJobs.sort.deadline': 'Deadline',
+  'savedJobs.sort.salary': 'Highest salary',
+  'savedJobs.sort.saved': 'Recently saved',
+  'savedJobs.sortBy': 'Sort saved jobs',
+  'savedJobs.title': 'Saved Jobs ({count})',
+
+  'savedSearches.button': 'Saved Searches',
+  'savedSearches.delete': 'Delete saved search',
+  'savedSearches.empty': 'Use "Save search" on the board to get alerts for new matching jobs.',
+  'savedSearches.newCount': '{count} new',
+  'savedSearches.title': 'Saved searches',
+
+  'toast.applicationSent': 'Application sent',
+  'toast.applicationSentDescription': 'The employer will review your application',
+  'toast.changesSaved': 'Changes saved',
+  'toast.companyNotFound': 'That company could not be found',
+  'toast.companyUpdated': 'Profile updated',
+  'toast.companyUpdatedDescription': "{name}'s profile has been saved",
+  'toast.deletePostingFailed': 'Failed to delete the posting',
+  'toast.deleteSearchFailed': 'Failed to delete the saved search',
+  'toast.draftSaved': "Draft saved. Publish it from My Postings when you're ready.",
+  'toast.jobNotFound': 'That job could not be found',
+  'toast.jobPosted': 'Job posted successfully!',
+  'toast.jobPublished': 'Job published',
+  'toast.jobSaved': 'Job saved',
+  'toast.jobSavedDescription': 'Job added to saved jobs',
+  'toast.jobSubmitted': 'Job submitted. A moderator will review it before it goes live.',
+  'toast.jobUnsaved': 'Job unsaved',
+  'toast.jobUnsavedDescription': 'Job removed from saved jobs',
+  'toast.jobUpdated': 'Job updated successfully!',
+  'toast.loadJobsFailed': 'Failed to load jobs',
+  'toast.loadPostingsFailed': 'Failed to load your postings',
+  'toast.moveApplicationFailed': 'Failed to move the application',
+  'toast.notYourPosting': 'You can only manage your own postings',
+  'toast.notesSaved': 'Notes saved',
+  'toast.notesSavedDescription': 'Notes for "{title}" have been updated',
+  'toast.posterNotified': 'The poster of "{title}" has been notified',
+  'toast.postingApproved': 'Posting approved',
+  'toast.postingDeleted': 'Posting deleted',
+  'toast.postingDeletedDescription': 'The job has been removed',
+  'toast.postingFilled': 'Posting marked as filled',
+  'toast.postingPaused': 'Posting paused',
+  'toast.postingRejected': 'Posting rejected',
+  'toast.postingRenewed': 'Posting renewed',
+  'toast.postingReopened': 'Posting reopened',
+  'toast.postingUpdated': '"{title}" has been updated',
+  'toast.removeApplicationFailed': 'Failed to remove the application',
+  'toast.reportFailed': 'Failed to send the report',
+  'toast.reportSent': 'Thanks for your report',
+  'toast.reportSentDescription': 'A moderator will review the job',
+  'toast.reportsDismissed': 'Reports dismissed',
+  'toast.reportsDismissedDescription': '"{title}" stays on the board',
+  'toast.reviewFailed': 'Failed to save the review decision',
+  'toast.saveJobFailed': 'Failed to save job',
+  'toast.saveNotesFailed': 'Failed to save your notes',
+  'toast.saveSearchFailed': 'Failed to save the search',
+  'toast.savedOffline': "You're offline. The change will sync when you reconnect.",
+  'toast.savesSynced': 'Saved jobs synced',
+  'toast.savesSyncedDescription': { one: '{count} change made offline was saved', other: '{count} changes made offline were saved' },
+  'toast.searchSaved': 'Search saved',
+  'toast.searchSavedDescription': 'We\'ll let you know about new jobs matching "{name}"',
+  'toast.submittedForReview': 'Submitted for review',
+  'toast.updateCompanyFailed': 'Failed to update the company profile',
+  'toast.updatePostingFailed': 'Failed to update the posting',
+  'toast.updateSavedJobFailed': 'Failed to update the saved job. Please try again.',
+  'toast.updateStatusFailed': 'Failed to update the application status',
+
+  'trackedStatus.accepted': 'Accepted',
+  'trackedStatus.applied': 'Applied',
+  'trackedStatus.heardBack': 'Heard back',
+  'trackedStatus.interviewing': 'Interviewing',
+  'trackedStatus.offer': 'Offer',
+  'trackedStatus.rejected': 'Rejected',
+  'trackedStatus.withdrawn': 'Withdrawn',
+
+  'workplaceType.hybrid': 'Hybrid',
+  'workplaceType.onsite': 'On-site',
+  'workplaceType.remote': 'Remote'
+} satisfies Record<string, Message>
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, Message>
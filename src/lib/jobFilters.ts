@@ -0,0 +1,276 @@
+import { convertAmount, DEFAULT_CURRENCY, isSupportedCurrency, SUPPORTED_CURRENCIES } from './currency'
+import { t, translateValue } from './i18n'
+import { formatCurrency } from './i18n/format'
+import { boundingBox, findPlace, flatCircle, formatPlace, WORKPLACE_TYPE_LABELS } from './location'
+import { PERIODS_PER_YEAR, SALARY_PERIODS } from './salary'
+import { maxEditsFor, parseQuery } from './search'
+import { allOf, anyOf, concat, containsPattern, inList, LIKE_ESCAPE, sql, type SqlFragment } from './sql'
+import type { WorkplaceType } from '../types/job'
+
+export interface JobFilters {
+  searchQuery: string
+  // A gazetteer place id. Older saved searches and links hold a free-text
+  // location instead, which is matched exactly.
+  location: string
+  // Kilometres around `location`; only that city when empty
+  radius: string
+  workplace: string
+  employmentType: string
+  experienceLevel: string
+  // Annual amount in `currency`, the viewer's chosen currency
+  // (DEFAULT_CURRENCY when empty)
+  salaryMin: string
+  currency: string
+  // 'salary' for highest paying first; newest first when empty
+  sort: string
+  // 'true' to list expired postings alongside active ones
+  includeExpired: string
+}
+
+export const EMPTY_JOB_FILTERS: JobFilters = {
+  searchQuery: '',
+  location: '',
+  radius: '',
+  workplace: '',
+  employmentType: '',
+  experienceLevel: '',
+  salaryMin: '',
+  currency: '',
+  sort: '',
+  includeExpired: ''
+}
+
+export const JOBS_PAGE_SIZE = 20
+
+// A text search ranks at most this many of the newest jobs containing its
+// words, so a broad query on a big board doesn't download all of it
+export const SEARCH_POOL_SIZE = 500
+
+export const EMPLOYMENT_TYPES = ['Full-time', 'Part-time', 'Contract', 'Freelance', 'Internship']
+
+export const EXPERIENCE_LEVELS = ['Entry Level', 'Mid Level', 'Senior Level', 'Lead/Principal', 'Executive']
+
+// Minimum annual salary options, in the viewer's currency
+export const SALARY_THRESHOLDS = [30000, 50000, 70000, 100000, 150000, 200000]
+
+export const isTextSearch = (filters: JobFilters) => filters.searchQuery.trim() !== ''
+
+// A currency from the URL without a rate falls back to the default, so
+// thresholds are never compared unconverted
+export const viewerCurrency = (filters: JobFilters) =>
+  isSupportedCurrency(filters.currency) ? filters.currency : DEFAULT_CURRENCY
+
+export const isSalarySort = (filters: JobFilters) => filters.sort === 'salary'
+
+// The search radius in km. A radius from the URL that isn't a positive
+// number is ignored, leaving a search of the place itself.
+export function radiusKm(filters: JobFilters): number | undefined {
+  const radius = parseFloat(filters.radius)
+  return Number.isFinite(radius) && radius > 0 ? radius : undefined
+}
+
+// The centre of a radius search, when there is one
+export const radiusCenter = (filters: JobFilters) => (radiusKm(filters) ? findPlace(filters.location) : undefined)
+
+// Legacy rows have no workplace type; they count as on-site unless their
+// location text mentions remote work, the same rule the jobs row schema uses.
+// SQLite's LIKE ignores case.
+function workplaceCondition(workplace: WorkplaceType): SqlFragment {
+  switch (workplace) {
+    case 'remote':
+      return anyOf(sql('workplace_type = ?', 'remote'), sql('workplace_type IS NULL AND location LIKE ?', '%remote%'))
+    case 'onsite':
+      return anyOf(sql('workplace_type = ?', 'onsite'), sql('workplace_type IS NULL AND location NOT LIKE ?', '%remote%'))
+    default:
+      return sql('workplace_type = ?', workplace)
+  }
+}
+
+function locationCondition(filters: JobFilters): SqlFragment {
+  const place = findPlace(filters.location)
+  if (!place) return sql('location = ?', filters.location)
+  const radius = radiusKm(filters)
+  if (!radius) return sql('city = ? AND country = ?', place.city, place.country)
+
+  // The box lets the database skip most rows before the circle is checked.
+  // A box crossing the antimeridian or a pole only narrows by latitude.
+  const box = boundingBox(place, radius)
+  const latitudeBand = sql('latitude BETWEEN ? AND ?', box.minLat, box.maxLat)
+  if (!box.lng) return latitudeBand
+  const circle = flatCircle(place, radius)
+  return allOf(
+    latitudeBand,
+    sql('longitude BETWEEN ? AND ?', box.lng.min, box.lng.max),
+    sql(
+      '(latitude - ?) * (latitude - ?) + (longitude - ?) * (longitude - ?) * ? <= ?',
+      place.lat, place.lat, place.lng, place.lng, circle.lngWeight, circle.maxSquared
+    )
+  )
+}
+
+const SEARCHED_COLUMNS = ['title', 'tags', 'company', 'description']
+
+const containedInJob = (text: string) =>
+  anyOf(...SEARCHED_COLUMNS.map(column => sql(`${column} LIKE ? ${LIKE_ESCAPE}`, containsPattern(text))))
+
+// A term with n typos forgiven still contains at least one of n + 1
+// non-overlapping pieces of it unchanged, so the pieces narrow a search
+// without losing the typo-tolerant matches lib/search ranks
+function termPieces(term: string): string[] {
+  const count = maxEditsFor(term) + 1
+  return Array.from({ length: count }, (_, index) =>
+    term.slice(Math.round((index * term.length) / count), Math.round(((index + 1) * term.length) / count))
+  )
+}
+
+// Jobs that could match the free-text query: every term, or a piece of it,
+// and every word of each phrase appears somewhere in the job. The ranking
+// itself happens client-side (see lib/search).
+function searchCondition(searchQuery: string): SqlFragment | undefined {
+  const query = parseQuery(searchQuery)
+  const conditions = [
+    ...query.terms.map(term => anyOf(...termPieces(term).map(containedInJob))),
+    ...query.phrases.flatMap(phrase => phrase.split(' ').map(containedInJob))
+  ]
+  return conditions.length > 0 ? allOf(...conditions) : undefined
+}
+
+// Translate the board filters into a SQL condition on the jobs table so
+// filtering happens in the database instead of on whatever page is loaded.
+// A free-text query only narrows the jobs down to those it could match.
+export function buildJobsWhere(filters: JobFilters): SqlFragment {
+  // Only active, unexpired postings are listed by default. Rows from before
+  // statuses existed count as active.
+  const conditions: SqlFragment[] = filters.includeExpired
+    ? [anyOf(inList('status', ['active', 'expired']), sql('status IS NULL'))]
+    : [
+        anyOf(sql('status = ?', 'active'), sql('status IS NULL')),
+        anyOf(sql('expires_at IS NULL'), sql('expires_at > ?', new Date().toISOString()))
+      ]
+
+  const search = isTextSearch(filters) ? searchCondition(filters.searchQuery) : undefined
+  if (search) {
+    conditions.push(search)
+  }
+
+  if (filters.location) {
+    conditions.push(locationCondition(filters))
+  }
+
+  if (filters.workplace) {
+    conditions.push(workplaceCondition(filters.workplace as WorkplaceType))
+  }
+
+  if (filters.employmentType) {
+    conditions.push(sql('employment_type = ?', filters.employmentType))
+  }
+
+  if (filters.experienceLevel) {
+    conditions.push(sql('experience_level = ?', filters.experienceLevel))
+  }
+
+  // The annual threshold is converted into every posting currency and pay
+  // period, so a €60k salary or a $90/hr contract is compared with it at the
+  // current rate. Postings in currencies without a rate can't be compared and
+  // are left out; postings without a currency are in the default one and
+  // postings without a period are annual, as in buildJobsOrder.
+  if (filters.salaryMin) {
+    const threshold = parseInt(filters.salaryMin)
+    const currency = viewerCurrency(filters)
+    conditions.push(anyOf(
+      ...SUPPORTED_CURRENCIES.flatMap(postingCurrency => {
+        const converted = convertAmount(threshold, currency, postingCurrency)
+        if (converted === undefined) return []
+        return SALARY_PERIODS.map(period =>
+          allOf(
+            sql('COALESCE(salary_currency, ?) = ?', DEFAULT_CURRENCY, postingCurrency),
+            period === 'year'
+              ? anyOf(sql('salary_period = ?', period), sql('salary_period IS NULL'))
+              : sql('salary_period = ?', period),
+            sql('salary_min >= ?', Math.floor(converted / PERIODS_PER_YEAR[period]))
+          )
+        )
+      })
+    ))
+  }
+
+  return allOf(...conditions)
+}
+
+// Newest first, or for a salary sort the highest annual salary in the
+// viewer's currency first, ranked the way sortBySalary ranks jobs. Postings
+// that can't be converted go last.
+export function buildJobsOrder(filters: JobFilters): SqlFragment {
+  if (!isSalarySort(filters)) return sql('created_at DESC')
+  const currency = viewerCurrency(filters)
+  const rates = [...new Set([...SUPPORTED_CURRENCIES, currency])].flatMap(postingCurrency => {
+    const rate = convertAmount(1, postingCurrency, currency)
+    return rate === undefined ? [] : [sql('WHEN ? THEN ?', postingCurrency, rate)]
+  })
+  const periods = SALARY_PERIODS.map(period => sql('WHEN ? THEN ?', period, PERIODS_PER_YEAR[period]))
+  return concat(
+    sql('COALESCE(COALESCE(salary_max, salary_min) * CASE COALESCE(salary_currency, ?)', DEFAULT_CURRENCY),
+    ...rates,
+    sql("END * CASE COALESCE(salary_period, 'year')"),
+    ...periods,
+    sql('END, -1) DESC, created_at DESC')
+  )
+}
+
+function describeLocation(filters: JobFilters): string {
+  const place = findPlace(filters.location)
+  if (!place) return filters.location
+  const radius = radiusKm(filters)
+  return radius ? t('filters.withinRadius', { distance: radius, place: place.city }) : formatPlace(place)
+}
+
+// Human-readable summary of the active filters, e.g. "react · Remote · Full-time"
+export function describeFilters(filters: JobFilters): string {
+  const parts = [
+    filters.searchQuery.trim(),
+    describeLocation(filters),
+    filters.workplace && t(WORKPLACE_TYPE_LABELS[filters.workplace as WorkplaceType]),
+    filters.employmentType && translateValue('employmentType', filters.employmentType),
+    filters.experienceLevel && translateValue('experienceLevel', filters.experienceLevel),
+    filters.salaryMin && t('filters.salaryAtLeast', {
+      amount: formatCurrency(parseInt(filters.salaryMin), viewerCurrency(filters))
+    })
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' · ') : t('filters.allJobs')
+}
+
+// Short query-string names for each filter, so board URLs stay shareable
+const FILTER_PARAMS: Record<keyof JobFilters, string> = {
+  searchQuery: 'q',
+  location: 'location',
+  radius: 'radius',
+  workplace: 'workplace',
+  employmentType: 'type',
+  experienceLevel: 'level',
+  salaryMin: 'salary',
+  currency: 'currency',
+  sort: 'sort',
+  includeExpired: 'expired'
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): JobFilters {
+  const filters = { ...EMPTY_JOB_FILTERS }
+  for (const [field, param] of Object.entries(FILTER_PARAMS) as [keyof JobFilters, string][]) {
+    filters[field] = params.get(param) ?? ''
+  }
+  return filters
+}
+
+export function pageFromSearchParams(params: URLSearchParams): number {
+  const page = parseInt(params.get('page') ?? '')
+  return Number.isFinite(page) && page > 1 ? page : 1
+}
+
+export function filtersToSearchParams(filters: JobFilters, page = 1): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const [field, param] of Object.entries(FILTER_PARAMS) as [keyof JobFilters, string][]) {
+    if (filters[field]) params.set(param, filters[field])
+  }
+  if (page > 1) params.set('page', String(page))
+  return params
+}
@@ -0,0 +1,33 @@
+import { addDays, endOfDay } from 'date-fns'
+import type { MessageKey } from './i18n'
+import type { JobStatus } from '../types/job'
+
+// How long a posting stays listed when the poster doesn't pick a date
+export const DEFAULT_LISTING_DAYS = 30
+
+export const JOB_STATUS_LABELS: Record<JobStatus, MessageKey> = {
+  draft: 'jobStatus.draft',
+  pending: 'jobStatus.pending',
+  rejected: 'jobStatus.rejected',
+  active: 'jobStatus.active',
+  paused: 'jobStatus.paused',
+  expired: 'jobStatus.expired',
+  filled: 'jobStatus.filled'
+}
+
+export const JOB_STATUS_BADGE_CLASSES: Record<JobStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 border-gray-200',
+  pending: 'bg-orange-50 text-orange-700 border-orange-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+  active: 'bg-green-50 text-green-700 border-green-200',
+  paused: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  expired: 'bg-red-50 text-red-700 border-red-200',
+  filled: 'bg-blue-50 text-blue-700 border-blue-200'
+}
+
+export const defaultExpiry = (from = new Date()) => endOfDay(addDays(from, DEFAULT_LISTING_DAYS))
+
+export const isPastExpiry = (expiresAt?: string, now = new Date()) =>
+  Boolean(expiresAt) && new Date(expiresAt!).getTime() <= now.getTime()
+
+export const isAcceptingApplications = (status: JobStatus) => status === 'active'
@@ -0,0 +1,143 @@
+import gazetteer from './gazetteer.json'
+import { localeConfig, t, type MessageKey } from './i18n'
+import type { Job, WorkplaceType } from '../types/job'
+
+// Places come from gazetteer.json, a bundled offline list of cities with
+// their coordinates and timezone. There's no geocoding service; add entries
+// to the file to offer more places.
+export interface Place {
+  id: string
+  city: string
+  region: string
+  country: string
+  lat: number
+  lng: number
+  timezone: string
+}
+
+export const PLACES: Place[] = gazetteer.places
+
+export const WORKPLACE_TYPES: WorkplaceType[] = ['onsite', 'hybrid', 'remote']
+
+export const WORKPLACE_TYPE_LABELS: Record<WorkplaceType, MessageKey> = {
+  onsite: 'workplaceType.onsite',
+  hybrid: 'workplaceType.hybrid',
+  remote: 'workplaceType.remote'
+}
+
+// "Within N km" options for the board's radius filter
+export const RADIUS_OPTIONS_KM = [10, 25, 50, 100, 250]
+
+// Every timezone a gazetteer place is in, for the remote/hybrid picker
+export const TIMEZONES = [...new Set(PLACES.map(place => place.timezone))].sort()
+
+export const findPlace = (id: string) => PLACES.find(place => place.id === id)
+
+// The gazetteer entry a job's structured location was picked from
+export const placeOfJob = (job: Pick<Job, 'city' | 'country'>) =>
+  job.city ? PLACES.find(place => place.city === job.city && place.country === job.country) : undefined
+
+const normalize = (value: string) =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+
+export const countryName = (code: string, locale = localeConfig().intl) =>
+  new Intl.DisplayNames([locale], { type: 'region' }).of(code) ?? code
+
+// Places whose city, region or country matches `query`. Cities starting with
+// it come first.
+export function searchPlaces(query: string, limit = 8): Place[] {
+  const needle = normalize(query)
+  if (!needle) return PLACES.slice(0, limit)
+  const scored = PLACES.flatMap(place => {
+    const city = normalize(place.city)
+    if (city.startsWith(needle)) return [{ place, score: 0 }]
+    if (city.includes(needle)) return [{ place, score: 1 }]
+    const rest = [place.region, place.country, countryName(place.country, 'en'), countryName(place.country)]
+    return rest.some(value => normalize(value).includes(needle)) ? [{ place, score: 2 }] : []
+  })
+  return scored
+    .sort((a, b) => a.score - b.score || a.place.city.localeCompare(b.place.city))
+    .slice(0, limit)
+    .map(entry => entry.place)
+}
+
+// e.g. "Cambridge, England, United Kingdom". The region is left out when it
+// just repeats the city.
+export function formatPlace(place: Pick<Place, 'city' | 'region' | 'country'>, locale?: string) {
+  const parts = [place.city, place.region !== place.city ? place.region : '', countryName(place.country, locale)]
+  return parts.filter(Boolean).join(', ')
+}
+
+// The stored `location` label. It's kept in English so text search and
+// older code paths see the same value whatever language the poster used.
+export const locationLabel = (place: Place | undefined) => (place ? formatPlace(place, 'en') : 'Remote')
+
+// How a job's location is shown, e.g. "Berlin, Germany · Hybrid". Postings
+// without a structured place show their free text as typed.
+export function formatJobLocation(job: Pick<Job, 'location' | 'city' | 'region' | 'country' | 'workplaceType'>) {
+  if (!job.city || !job.country) return job.location
+  const place = formatPlace({ city: job.city, region: job.region ?? '', country: job.country })
+  return job.workplaceType === 'onsite' ? place : `${place} · ${t(WORKPLACE_TYPE_LABELS[job.workplaceType])}`
+}
+
+// e.g. "Europe/Berlin (GMT+2)", using the offset in effect today
+export function formatTimezone(timezone: string) {
+  const offset = new Intl.DateTimeFormat(localeConfig().intl, { timeZone: timezone, timeZoneName: 'shortOffset' })
+    .formatToParts(new Date())
+    .find(part => part.type === 'timeZoneName')?.value
+  const name = timezone.replace(/_/g, ' ')
+  return offset ? `${name} (${offset})` : name
+}
+
+interface Coordinates {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Great-circle (haversine) distance
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+// The latitude/longitude box around `center` that contains the circle of
+// `radiusKm`. It's a cheap database pre-filter; flatCircle decides. The
+// longitude range is dropped when the box would cross the antimeridian or
+// reach a pole.
+export function boundingBox(center: Coordinates, radiusKm: number) {
+  const angle = radiusKm / EARTH_RADIUS_KM
+  const latDelta = angle * (180 / Math.PI)
+  const sinLngDelta = Math.sin(angle) / Math.cos(toRadians(center.lat))
+  const lngDelta = Math.asin(Math.min(sinLngDelta, 1)) * (180 / Math.PI)
+  const minLng = center.lng - lngDelta
+  const maxLng = center.lng + lngDelta
+  const wraps = sinLngDelta >= 1 || minLng < -180 || maxLng > 180 || Math.abs(center.lat) + latDelta >= 90
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    lng: wraps ? undefined : { min: minLng, max: maxLng }
+  }
+}
+
+// The circle of `radiusKm` around `center` on a flat (equirectangular) map,
+// in degrees: a point is inside when Δlat² + Δlng² · lngWeight ≤ maxSquared.
+// It's plain arithmetic so the database can check it, and at the board's
+// radii it agrees with distanceKm to well under a percent.
+export function flatCircle(center: Coordinates, radiusKm: number) {
+  const degrees = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI)
+  return { lngWeight: Math.cos(toRadians(center.lat)) ** 2, maxSquared: degrees ** 2 }
+}
+
+// Distance from a job's structured place, or undefined when it has none
+export function jobDistanceKm(job: Pick<Job, 'latitude' | 'longitude'>, from: Coordinates) {
+  if (job.latitude === undefined || job.longitude === undefined) return undefined
+  return distanceKm(from, { lat: job.latitude, lng: job.longitude })
+}
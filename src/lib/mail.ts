@@ -0,0 +1,31 @@
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+const FROM_ADDRESS = 'alerts@nichejobs.local'
+
+// There's no mail provider yet. Messages are posted to a local mail catcher
+// when VITE_MAIL_STUB_URL is set, and logged to the console otherwise.
+export async function sendMail(message: MailMessage): Promise<void> {
+  const endpoint = import.meta.env.VITE_MAIL_STUB_URL
+  if (!endpoint) {
+    console.info(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    return
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      From: { Email: FROM_ADDRESS },
+      To: [{ Email: message.to }],
+      Subject: message.subject,
+      Text: message.text
+    })
+  })
+  if (!response.ok) {
+    throw new Error(`Mail stub responded with ${response.status}`)
+  }
+}
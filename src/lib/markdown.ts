@@ -0,0 +1,182 @@
+// A small Markdown dialect for job descriptions: headings, paragraphs,
+// bulleted and numbered lists, bold, italics, inline code and links. It
+// parses to a tree that's rendered as React elements, never as HTML, so
+// there's no markup in a posting that could run a script.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/
+const BULLET = /^\s*[-*+]\s+(.*)$/
+const NUMBERED = /^\s*\d{1,9}[.)]\s+(.*)$/
+
+// Alternatives in priority order: code, bold, italics, links, bare URLs.
+// Underscores only count at word edges, so snake_case stays as it is.
+const INLINE = new RegExp(
+  [
+    '`([^`]+)`',
+    '\\*\\*(.+?)\\*\\*',
+    '(?<![\\p{L}\\p{N}])__(.+?)__(?![\\p{L}\\p{N}])',
+    '\\*([^*\\s](?:[^*]*[^*\\s])?)\\*',
+    '(?<![\\p{L}\\p{N}])_([^_\\s](?:[^_]*[^_\\s])?)_(?![\\p{L}\\p{N}])',
+    '\\[([^\\]]+)\\]\\(((?:[^()\\s]|\\([^()\\s]*\\))+)\\)',
+    '(https?:\\/\\/[^\\s<>()]*[^\\s<>().,;:!?\'"])'
+  ].join('|'),
+  'gu'
+)
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+// Links may only point at web pages and mail addresses; anything else
+// (javascript:, data:, relative paths) is shown as plain text
+export function safeHref(href: string): string | undefined {
+  try {
+    const url = new URL(href)
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = []
+  const pushText = (value: string) => {
+    if (!value) return
+    const last = nodes[nodes.length - 1]
+    if (last?.type === 'text') {
+      last.text += value
+    } else {
+      nodes.push({ type: 'text', text: value })
+    }
+  }
+
+  let position = 0
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0
+    pushText(text.slice(position, index))
+    position = index + match[0].length
+
+    const [, code, strong, strongAlt, em, emAlt, linkText, linkHref, bareUrl] = match
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) })
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) })
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkHref)
+      if (href) {
+        nodes.push({ type: 'link', href, children: parseInline(linkText) })
+      } else {
+        nodes.push(...parseInline(linkText))
+      }
+    } else {
+      const href = safeHref(bareUrl)
+      if (href) {
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: bareUrl }] })
+      } else {
+        pushText(bareUrl)
+      }
+    }
+  }
+  pushText(text.slice(position))
+  return nodes
+}
+
+// Single newlines inside a paragraph are kept as line breaks, which is how
+// descriptions written before Markdown support were laid out
+function parseLines(lines: string[]): MarkdownInline[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [{ type: 'break' as const }] : []),
+    ...parseInline(line.trim())
+  ])
+}
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let paragraph: string[] = []
+  let list: { ordered: boolean; items: string[][] } | null = null
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseLines(paragraph) })
+      paragraph = []
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseLines) })
+      list = null
+    }
+  }
+
+  for (const line of source.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      flush()
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      flush()
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) })
+      continue
+    }
+
+    const bullet = line.match(BULLET)
+    const numbered = bullet ? null : line.match(NUMBERED)
+    const item = bullet ?? numbered
+    if (item) {
+      const ordered = numbered !== null
+      if (paragraph.length > 0 || (list && list.ordered !== ordered)) flush()
+      list ??= { ordered, items: [] }
+      list.items.push([item[1]])
+      continue
+    }
+
+    // An indented line carries on the list item above it
+    if (list && /^\s/.test(line)) {
+      list.items[list.items.length - 1].push(line)
+      continue
+    }
+
+    if (list) flush()
+    paragraph.push(line)
+  }
+  flush()
+  return blocks
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'break':
+          return ' '
+        default:
+          return inlineText(node.children)
+      }
+    })
+    .join('')
+}
+
+// The text of a description without its formatting, for card previews and
+// search
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source)
+    .map(block => (block.type === 'list' ? block.items.map(inlineText).join(' ') : inlineText(block.children)))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
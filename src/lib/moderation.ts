@@ -0,0 +1,186 @@
+import { t, type MessageKey } from './i18n'
+import { convertAmount } from './currency'
+import { annualize } from './salary'
+import type { Job, JobInput, ModerationFlag, ModerationFlagKind } from '../types/job'
+import type { ReportCategory } from '../types/report'
+
+export const MODERATION_FLAG_LABELS: Record<ModerationFlagKind, MessageKey> = {
+  suspiciousLink: 'moderation.flag.suspiciousLink',
+  freeMailAddress: 'moderation.flag.freeMailAddress',
+  salaryOutlier: 'moderation.flag.salaryOutlier',
+  bannedWord: 'moderation.flag.bannedWord'
+}
+
+export const REPORT_CATEGORIES: ReportCategory[] = ['scam', 'discriminatory', 'expired', 'wrongInfo']
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, MessageKey> = {
+  scam: 'report.category.scam',
+  discriminatory: 'report.category.discriminatory',
+  expired: 'report.category.expired',
+  wrongInfo: 'report.category.wrongInfo'
+}
+
+export const REPORT_CATEGORY_DESCRIPTIONS: Record<ReportCategory, MessageKey> = {
+  scam: 'report.categoryDescription.scam',
+  discriminatory: 'report.categoryDescription.discriminatory',
+  expired: 'report.categoryDescription.expired',
+  wrongInfo: 'report.categoryDescription.wrongInfo'
+}
+
+// Phrases that show up in advance-fee and pyramid-scheme postings
+export const BANNED_WORDS = [
+  'wire transfer',
+  'western union',
+  'moneygram',
+  'money order',
+  'gift card',
+  'cash app',
+  'bitcoin',
+  'crypto wallet',
+  'upfront fee',
+  'training fee',
+  'processing fee',
+  'registration fee',
+  'starter kit',
+  'guaranteed income',
+  'get rich',
+  'be your own boss',
+  'no interview',
+  'reship',
+  'package forwarding'
+]
+
+// Personal mailboxes; real employers apply through their own domain
+const FREE_MAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'ymail.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'aol.com',
+  'icloud.com',
+  'me.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'gmx.net',
+  'mail.com',
+  'mail.ru',
+  'yandex.com',
+  'zoho.com'
+]
+
+// Hosts that hide where a link goes, or move the conversation off the board
+const SUSPICIOUS_HOSTS = [
+  'bit.ly',
+  'tinyurl.com',
+  't.co',
+  'goo.gl',
+  'ow.ly',
+  'is.gd',
+  'buff.ly',
+  'rebrand.ly',
+  'cutt.ly',
+  'shorturl.at',
+  'wa.me',
+  'whatsapp.com',
+  't.me',
+  'telegram.me'
+]
+
+// Distinct open reports that take a live posting off the board until a
+// moderator has looked at it
+export const REPORT_HIDE_THRESHOLD = Number(import.meta.env.VITE_REPORT_HIDE_THRESHOLD) || 3
+
+// Annual salaries in USD outside this range are probably typos or bait
+export const SALARY_OUTLIER_USD = { min: 10000, max: 750000 }
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s)<>"]+/gi
+
+function linkFlag(url: string): ModerationFlag | undefined {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return { kind: 'suspiciousLink', detail: url }
+  }
+  const host = parsed.hostname.toLowerCase()
+  const suspicious = parsed.protocol !== 'https:' ||
+    /^\d{1,3}(\.\d{1,3}){3}$/.test(host) ||
+    host.split('.').some(label => label.startsWith('xn--')) ||
+    SUSPICIOUS_HOSTS.some(domain => host === domain || host.endsWith(`.${domain}`))
+  return suspicious ? { kind: 'suspiciousLink', detail: url } : undefined
+}
+
+function salaryFlags(input: JobInput): ModerationFlag[] {
+  const toAnnualUsd = (amount?: number) => {
+    if (!amount) return undefined
+    const converted = convertAmount(amount, input.salaryCurrency, 'USD')
+    return converted === undefined ? undefined : Math.round(annualize(converted, input.salaryPeriod))
+  }
+  const min = toAnnualUsd(input.salaryMin)
+  const max = toAnnualUsd(input.salaryMax)
+  const flags: ModerationFlag[] = []
+  // Part-time and short contracts can legitimately pay little per year
+  if (min !== undefined && min < SALARY_OUTLIER_USD.min && input.employmentType === 'Full-time') {
+    flags.push({ kind: 'salaryOutlier', detail: String(min) })
+  }
+  const top = max ?? min
+  if (top !== undefined && top > SALARY_OUTLIER_USD.max) {
+    flags.push({ kind: 'salaryOutlier', detail: String(top) })
+  }
+  return flags
+}
+
+// The automatic checks run on every save. Flags don't block a posting, they
+// point moderators at what to look at.
+export function detectFlags(input: JobInput): ModerationFlag[] {
+  const text = [input.title, input.description, input.requirements, input.benefits].filter(Boolean).join('\n')
+  const links = [...(text.match(URL_PATTERN) ?? []), ...(input.applicationLink ? [input.applicationLink] : [])]
+  const emailDomain = input.applicationEmail?.split('@').pop()?.toLowerCase()
+  const lowerText = text.toLowerCase()
+
+  return [
+    ...[...new Set(links)].flatMap(url => linkFlag(url) ?? []),
+    ...(emailDomain && FREE_MAIL_DOMAINS.includes(emailDomain)
+      ? [{ kind: 'freeMailAddress' as const, detail: emailDomain }]
+      : []),
+    ...salaryFlags(input),
+    ...BANNED_WORDS
+      .filter(word => new RegExp(`\\b${word}\\b`).test(lowerText))
+      .map(word => ({ kind: 'bannedWord' as const, detail: word }))
+  ]
+}
+
+// Whether publishing the posting has to go through the queue. Once approved,
+// pausing, reopening and renewing it don't, but a rejected posting always
+// does, including one a moderator took down after approving it.
+export const needsReview = (job: Pick<Job, 'status' | 'approvedAt'>) =>
+  job.status === 'rejected' || (!job.approvedAt && (job.status === 'draft' || job.status === 'pending'))
+
+// The in-app notification telling a poster what happened to their posting
+export function reviewNotification(job: Job, decision: 'approved' | 'rejected', reason?: string) {
+  return decision === 'approved'
+    ? {
+        title: t('moderation.notification.approvedTitle'),
+        body: t('moderation.notification.approvedBody', { title: job.title }),
+        link: `/jobs/${job.id}`
+      }
+    : {
+        title: t('moderation.notification.rejectedTitle'),
+        body: t('moderation.notification.rejectedBody', { title: job.title, reason: reason ?? '' }),
+        link: '/my-postings'
+      }
+}
+
+// Tells the poster their posting was hidden, without saying who reported it
+export function hiddenNotification(job: Job) {
+  return {
+    title: t('report.notification.hiddenTitle'),
+    body: t('report.notification.hiddenBody', { title: job.title }),
+    link: '/my-postings'
+  }
+}
@@ -0,0 +1,37 @@
+import type { MessageKey } from './i18n'
+
+// What a visitor was trying to do when they were asked to sign in. It's
+// kept through the round trip to the sign-in page and replayed once they're
+// back, on the same URL, so filters and the open job come back with them.
+export type PendingAction =
+  | { kind: 'saveJob'; jobId: string }
+  | { kind: 'apply'; jobId: string }
+  | { kind: 'postJob' }
+  | { kind: 'saveSearch'; name: string }
+
+export const SIGN_IN_REASONS: Record<PendingAction['kind'], MessageKey> = {
+  saveJob: 'login.reason.saveJob',
+  apply: 'login.reason.apply',
+  postJob: 'login.reason.postJob',
+  saveSearch: 'login.reason.saveSearch'
+}
+
+const STORAGE_KEY = 'nichejobs.pendingAction'
+
+export function rememberPendingAction(action: PendingAction) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(action))
+}
+
+export function readPendingAction(): PendingAction | null {
+  const stored = sessionStorage.getItem(STORAGE_KEY)
+  if (!stored) return null
+  try {
+    return JSON.parse(stored) as PendingAction
+  } catch {
+    return null
+  }
+}
+
+export function clearPendingAction() {
+  sessionStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,39 @@
+import type { MessageKey } from './i18n'
+import type { Permission, Role, UserProfile } from '../types/user'
+
+export const ROLES: Role[] = ['candidate', 'employer', 'moderator', 'admin']
+
+export const ROLE_LABELS: Record<Role, MessageKey> = {
+  candidate: 'role.candidate',
+  employer: 'role.employer',
+  moderator: 'role.moderator',
+  admin: 'role.admin'
+}
+
+export const ROLE_DESCRIPTIONS: Record<Role, MessageKey> = {
+  candidate: 'role.candidateDescription',
+  employer: 'role.employerDescription',
+  moderator: 'role.moderatorDescription',
+  admin: 'role.adminDescription'
+}
+
+// Candidates can do everything that only touches their own saves,
+// searches and applications, so they need no extra permissions
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  candidate: [],
+  employer: ['postJobs'],
+  moderator: ['reviewJobs'],
+  admin: ['postJobs', 'reviewJobs', 'manageRoles', 'verifyCompanies']
+}
+
+export const hasPermission = (user: Pick<UserProfile, 'roles'> | null, permission: Permission) =>
+  user !== null && user.roles.some(role => ROLE_PERMISSIONS[role].includes(permission))
+
+// Accounts that are made admins when they sign in, from the comma-separated
+// VITE_ADMIN_EMAILS. It's how a new board gets its first admin.
+const ADMIN_EMAILS = (import.meta.env.VITE_ADMIN_EMAILS ?? '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean)
+
+export const isConfiguredAdmin = (email: string) => ADMIN_EMAILS.includes(email.trim().toLowerCase())
@@ -0,0 +1,86 @@
+import { convertAmount } from './currency'
+import { t, type MessageKey } from './i18n'
+import { formatCurrency } from './i18n/format'
+import type { Job, SalaryPeriod } from '../types/job'
+
+type JobSalary = Pick<Job, 'salaryMin' | 'salaryMax' | 'salaryCurrency' | 'salaryPeriod'>
+
+export const SALARY_PERIODS: SalaryPeriod[] = ['year', 'month', 'day', 'hour']
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, MessageKey> = {
+  year: 'salaryPeriod.year',
+  month: 'salaryPeriod.month',
+  day: 'salaryPeriod.day',
+  hour: 'salaryPeriod.hour'
+}
+
+const SALARY_PERIOD_SUFFIXES: Record<SalaryPeriod, MessageKey> = {
+  year: 'salary.suffix.year',
+  month: 'salary.suffix.month',
+  day: 'salary.suffix.day',
+  hour: 'salary.suffix.hour'
+}
+
+// Full-time working year: 52 weeks of 5 eight-hour days
+export const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  year: 1,
+  month: 12,
+  day: 260,
+  hour: 2080
+}
+
+export const annualize = (amount: number, period: SalaryPeriod) => amount * PERIODS_PER_YEAR[period]
+
+// Contract and freelance work is usually quoted hourly, internships monthly
+export function defaultSalaryPeriod(employmentType?: string): SalaryPeriod {
+  if (employmentType === 'Contract' || employmentType === 'Freelance') return 'hour'
+  if (employmentType === 'Internship') return 'month'
+  return 'year'
+}
+
+function formatRange(min: number | undefined, max: number | undefined, currency: string, period: SalaryPeriod) {
+  const suffix = t(SALARY_PERIOD_SUFFIXES[period])
+  if (min !== undefined && max !== undefined) {
+    return t('salary.range', { min: formatCurrency(min, currency), max: formatCurrency(max, currency), suffix })
+  } else if (min !== undefined) {
+    return t('salary.from', { min: formatCurrency(min, currency), suffix })
+  } else if (max !== undefined) {
+    return t('salary.upTo', { max: formatCurrency(max, currency), suffix })
+  }
+  return null
+}
+
+export function formatSalary(job: JobSalary): string {
+  return formatRange(job.salaryMin || undefined, job.salaryMax || undefined, job.salaryCurrency, job.salaryPeriod) ??
+    t('salary.notSpecified')
+}
+
+// The job's annual salary in `currency`, for comparing jobs. Uses the top of
+// the range when there is one.
+export function comparableSalary(job: JobSalary, currency: string): number | undefined {
+  const amount = job.salaryMax ?? job.salaryMin
+  if (amount === undefined) return undefined
+  const converted = convertAmount(amount, job.salaryCurrency, currency)
+  return converted === undefined ? undefined : annualize(converted, job.salaryPeriod)
+}
+
+// Highest paying first; jobs without a comparable salary go last
+export function sortBySalary(jobs: Job[], currency: string): Job[] {
+  return jobs
+    .map(job => ({ job, salary: comparableSalary(job, currency) ?? -1 }))
+    .sort((a, b) => b.salary - a.salary)
+    .map(entry => entry.job)
+}
+
+// "≈ $65,200 - $76,100/yr" for a job paid in another currency, or per year
+// for one paid by the hour, day or month. Null when there's nothing to add.
+export function formatConvertedSalary(job: JobSalary, currency: string): string | null {
+  if (job.salaryCurrency === currency && job.salaryPeriod === 'year') return null
+  const toAnnual = (amount?: number) => {
+    if (!amount) return undefined
+    const converted = convertAmount(amount, job.salaryCurrency, currency)
+    return converted === undefined ? undefined : annualize(converted, job.salaryPeriod)
+  }
+  const range = formatRange(toAnnual(job.salaryMin), toAnnual(job.salaryMax), currency, 'year')
+  return range ? t('salary.approximately', { range }) : null
+}
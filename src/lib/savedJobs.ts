@@ -0,0 +1,54 @@
+import { t, type MessageKey } from './i18n'
+import { formatDate } from './i18n/format'
+import { comparableSalary } from './salary'
+import type { Job, SavedJob } from '../types/job'
+
+export type SavedJobSort = 'saved' | 'deadline' | 'salary'
+
+export const SAVED_JOB_SORTS: SavedJobSort[] = ['saved', 'deadline', 'salary']
+
+export const SAVED_JOB_SORT_LABELS: Record<SavedJobSort, MessageKey> = {
+  saved: 'savedJobs.sort.saved',
+  deadline: 'savedJobs.sort.deadline',
+  salary: 'savedJobs.sort.salary'
+}
+
+export type SavedJobWithData = SavedJob & { job: Job }
+
+// The user's collections, in the order they'd look for them
+export const savedJobCollections = (saves: SavedJob[]) =>
+  [...new Set(saves.flatMap(save => save.collection ?? []))].sort((a, b) => a.localeCompare(b))
+
+// Whichever comes first: the day the user means to apply by, or the day
+// the posting closes
+export function savedJobDeadline({ remindAt, job }: SavedJobWithData): string | undefined {
+  const dates = [remindAt, job.expiresAt].filter((date): date is string => Boolean(date))
+  return dates.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0]
+}
+
+export function sortSavedJobs(saves: SavedJobWithData[], sort: SavedJobSort, currency: string): SavedJobWithData[] {
+  const time = (date?: string) => (date ? new Date(date).getTime() : Infinity)
+  switch (sort) {
+    case 'saved':
+      return [...saves].sort((a, b) => time(b.createdAt) - time(a.createdAt))
+    // Saves without a deadline go last
+    case 'deadline':
+      return [...saves].sort((a, b) => time(savedJobDeadline(a)) - time(savedJobDeadline(b)))
+    case 'salary':
+      return [...saves].sort((a, b) =>
+        (comparableSalary(b.job, currency) ?? -1) - (comparableSalary(a.job, currency) ?? -1)
+      )
+  }
+}
+
+export const isReminderDue = (save: SavedJob, now = new Date()) =>
+  Boolean(save.remindAt && !save.remindedAt && new Date(save.remindAt) <= now)
+
+// The in-app notification for a save whose apply-by day has come
+export function reminderNotification(job: Job, save: SavedJob) {
+  return {
+    title: t('savedJobs.reminder.title'),
+    body: t('savedJobs.reminder.body', { title: job.title, company: job.company, date: formatDate(save.remindAt ?? '') }),
+    link: `/jobs/${job.id}`
+  }
+}
@@ -0,0 +1,157 @@
+import type { Job } from '../../types/job'
+import { markdownToPlainText } from '../markdown'
+import { isEmptyQuery, parseQuery } from './query'
+import { levenshtein, stem, tokenize } from './tokenize'
+
+export { parseQuery } from './query'
+
+type SearchField = 'title' | 'tags' | 'company' | 'description'
+
+// Relative importance of a hit in each field
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 8,
+  tags: 5,
+  company: 3,
+  description: 1
+}
+
+// How much of a field's weight each kind of term match earns
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.7
+const FUZZY_MATCH = 0.4
+const PHRASE_BONUS = 1.5
+
+interface IndexedToken {
+  word: string
+  stem: string
+}
+
+interface IndexedField {
+  tokens: IndexedToken[]
+  stems: Set<string>
+  normalized: string
+}
+
+interface IndexedJob {
+  job: Job
+  fields: Record<SearchField, IndexedField>
+}
+
+export interface SearchResult {
+  job: Job
+  score: number
+  // Words (as they appear in the job) and phrases that matched, for highlighting
+  matches: string[]
+}
+
+// Typos forgiven in a term of this length
+export const maxEditsFor = (term: string) => (term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2)
+
+function indexField(text: string): IndexedField {
+  const words = tokenize(text)
+  const tokens = words.map(word => ({ word, stem: stem(word) }))
+  return {
+    tokens,
+    stems: new Set(tokens.map(token => token.stem)),
+    normalized: ` ${words.join(' ')} `
+  }
+}
+
+function indexJob(job: Job): IndexedJob {
+  return {
+    job,
+    fields: {
+      title: indexField(job.title),
+      tags: indexField(job.tags.join(' ')),
+      company: indexField(job.company),
+      description: indexField(markdownToPlainText(job.description))
+    }
+  }
+}
+
+// Best match quality of a stemmed term within one field, and the words that earned it
+function matchTerm(field: IndexedField, term: string): { quality: number; words: string[] } {
+  if (field.stems.has(term)) {
+    return { quality: EXACT_MATCH, words: field.tokens.filter(t => t.stem === term).map(t => t.word) }
+  }
+
+  if (term.length >= 3) {
+    const prefixed = field.tokens.filter(t => t.word.startsWith(term))
+    if (prefixed.length > 0) {
+      return { quality: PREFIX_MATCH, words: prefixed.map(t => t.word) }
+    }
+  }
+
+  const maxEdits = maxEditsFor(term)
+  if (maxEdits > 0) {
+    const fuzzy = field.tokens.filter(t => levenshtein(t.stem, term, maxEdits) <= maxEdits)
+    if (fuzzy.length > 0) {
+      return { quality: FUZZY_MATCH, words: fuzzy.map(t => t.word) }
+    }
+  }
+
+  return { quality: 0, words: [] }
+}
+
+export class JobSearchIndex {
+  private readonly entries: IndexedJob[]
+
+  constructor(jobs: Job[]) {
+    this.entries = jobs.map(indexJob)
+  }
+
+  // Every positive term and phrase must match somewhere; excluded ones must not
+  search(rawQuery: string): SearchResult[] {
+    const query = parseQuery(rawQuery)
+    const results: SearchResult[] = []
+
+    for (const entry of this.entries) {
+      const fields = Object.entries(entry.fields) as [SearchField, IndexedField][]
+
+      const excluded =
+        query.excludedTerms.some(term => fields.some(([, field]) => field.stems.has(term))) ||
+        query.excludedPhrases.some(phrase => fields.some(([, field]) => field.normalized.includes(` ${phrase} `)))
+      if (excluded) continue
+
+      let score = isEmptyQuery(query) ? 1 : 0
+      const matches = new Set<string>()
+      let missed = false
+
+      for (const term of query.terms) {
+        let termScore = 0
+        for (const [name, field] of fields) {
+          const { quality, words } = matchTerm(field, term)
+          termScore += quality * FIELD_WEIGHTS[name]
+          words.forEach(word => matches.add(word))
+        }
+        if (termScore === 0) {
+          missed = true
+          break
+        }
+        score += termScore
+      }
+      if (missed) continue
+
+      for (const phrase of query.phrases) {
+        let phraseScore = 0
+        for (const [name, field] of fields) {
+          if (field.normalized.includes(` ${phrase} `)) {
+            phraseScore += PHRASE_BONUS * FIELD_WEIGHTS[name]
+          }
+        }
+        if (phraseScore === 0) {
+          missed = true
+          break
+        }
+        matches.add(phrase)
+        score += phraseScore
+      }
+      if (missed) continue
+
+      results.push({ job: entry.job, score, matches: [...matches] })
+    }
+
+    // Newest first among equally relevant jobs
+    return results.sort((a, b) => b.score - a.score || b.job.createdAt.localeCompare(a.job.createdAt))
+  }
+}
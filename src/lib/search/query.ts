@@ -0,0 +1,38 @@
+import { stem, tokenize } from './tokenize'
+
+export interface ParsedQuery {
+  terms: string[]
+  phrases: string[]
+  excludedTerms: string[]
+  excludedPhrases: string[]
+}
+
+// Supports plain terms, "quoted phrases" and a leading `-` to exclude either
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excludedTerms: [], excludedPhrases: [] }
+  const pattern = /(-?)"([^"]*)"?|(-?)(\S+)/g
+
+  for (const match of query.matchAll(pattern)) {
+    const [, phraseExclude, phrase, termExclude, term] = match
+
+    if (phrase !== undefined) {
+      const normalized = tokenize(phrase).join(' ')
+      if (!normalized) continue
+      if (normalized.includes(' ')) {
+        ;(phraseExclude ? parsed.excludedPhrases : parsed.phrases).push(normalized)
+      } else {
+        ;(phraseExclude ? parsed.excludedTerms : parsed.terms).push(stem(normalized))
+      }
+      continue
+    }
+
+    for (const token of tokenize(term)) {
+      ;(termExclude ? parsed.excludedTerms : parsed.terms).push(stem(token))
+    }
+  }
+
+  return parsed
+}
+
+export const isEmptyQuery = (query: ParsedQuery) =>
+  query.terms.length === 0 && query.phrases.length === 0
@@ -0,0 +1,63 @@
+// Lowercase, strip accents and split on anything that isn't part of a word.
+// `+` and `#` are kept so skills like C++ and C# stay searchable.
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#]+/u)
+    .filter(Boolean)
+}
+
+const SUFFIX_RULES: [suffix: string, replacement: string, minStem: number][] = [
+  ['ational', 'ate', 3],
+  ['ization', 'ize', 3],
+  ['iveness', 'ive', 3],
+  ['fulness', 'ful', 3],
+  ['ments', '', 4],
+  ['ment', '', 4],
+  ['ings', '', 3],
+  ['ing', '', 3],
+  ['ies', 'y', 2],
+  ['sses', 'ss', 2],
+  ['edly', '', 3],
+  ['ed', '', 3],
+  ['ly', '', 3],
+  ['s', '', 3]
+]
+
+// A light suffix-stripping stemmer: enough to make "developers", "developing"
+// and "development" meet at "develop" without pulling in a full Porter stemmer.
+export function stem(token: string): string {
+  if (token.length <= 3 || /[^a-z]/.test(token)) return token
+
+  for (const [suffix, replacement, minStem] of SUFFIX_RULES) {
+    if (!token.endsWith(suffix)) continue
+    const base = token.slice(0, -suffix.length)
+    if (base.length < minStem) continue
+    // Leave words like "class", "status" and "analysis" alone
+    if (suffix === 's' && /(ss|us|is)$/.test(token)) return token
+    return base + replacement
+  }
+
+  return token
+}
+
+// Edit distance with an early exit once every cell in a row exceeds `max`
+export function levenshtein(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
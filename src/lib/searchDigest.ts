@@ -0,0 +1,63 @@
+import { filtersToSearchParams } from './jobFilters'
+import { t } from './i18n'
+import { formatJobLocation } from './location'
+import type { Job } from '../types/job'
+import type { SavedSearch } from '../types/savedSearch'
+
+export interface DigestEntry {
+  search: SavedSearch
+  jobs: Job[]
+}
+
+export interface SearchDigest {
+  title: string
+  body: string
+  // Board path for the first search, for the in-app notification
+  link: string
+  subject: string
+  text: string
+}
+
+// Jobs listed per search in the email; the rest are summarised as a count
+const JOBS_PER_SEARCH = 5
+
+export const savedSearchPath = (search: SavedSearch) => {
+  const params = filtersToSearchParams(search.filters).toString()
+  return params ? `/?${params}` : '/'
+}
+
+// Builds both the in-app notification and the plain-text email for new jobs
+// across the user's saved searches, in the current language. `origin` makes
+// the email links absolute.
+export function buildSearchDigest(entries: DigestEntry[], origin: string): SearchDigest {
+  const total = entries.reduce((sum, entry) => sum + entry.jobs.length, 0)
+  const title = t('digest.title', { count: total })
+
+  const sections = entries.map(({ search, jobs }) => {
+    const lines = jobs.slice(0, JOBS_PER_SEARCH).map(job =>
+      `  - ${t('digest.job', { title: job.title, company: job.company, location: formatJobLocation(job) })}\n    ${origin}/jobs/${job.id}`
+    )
+    if (jobs.length > JOBS_PER_SEARCH) {
+      lines.push(`  ${t('digest.more', { count: jobs.length - JOBS_PER_SEARCH })}`)
+    }
+    return [
+      t('digest.searchHeading', { name: search.name, count: jobs.length }),
+      ...lines,
+      `  ${t('digest.seeAll', { url: `${origin}${savedSearchPath(search)}` })}`
+    ].join('\n')
+  })
+
+  return {
+    title,
+    body: entries.map(({ search, jobs }) => t('digest.summary', { name: search.name, count: jobs.length })).join(', '),
+    link: savedSearchPath(entries[0].search),
+    subject: t('digest.subject', { title }),
+    text: [
+      t('digest.intro'),
+      '',
+      sections.join('\n\n'),
+      '',
+      t('digest.footer')
+    ].join('\n')
+  }
+}
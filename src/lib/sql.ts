@@ -0,0 +1,39 @@
+// Small builders for parameterized SQL, for the queries blink's `where`
+// objects can't express: conditions nested inside OR, or two conditions on
+// the same column. Values always travel as `?` parameters, never in the text.
+
+export type SqlValue = string | number
+
+export interface SqlFragment {
+  sql: string
+  params: SqlValue[]
+}
+
+export const sql = (text: string, ...params: SqlValue[]): SqlFragment => ({ sql: text, params })
+
+const join = (operator: 'AND' | 'OR', parts: SqlFragment[]): SqlFragment =>
+  parts.length === 1
+    ? parts[0]
+    : {
+        sql: parts.map(part => `(${part.sql})`).join(` ${operator} `),
+        params: parts.flatMap(part => part.params)
+      }
+
+// Runs fragments together, e.g. the WHEN branches of a CASE
+export const concat = (...parts: SqlFragment[]): SqlFragment => ({
+  sql: parts.map(part => part.sql).join(' '),
+  params: parts.flatMap(part => part.params)
+})
+
+export const allOf = (...parts: SqlFragment[]) => join('AND', parts)
+
+export const anyOf = (...parts: SqlFragment[]) => join('OR', parts)
+
+export const inList = (column: string, values: SqlValue[]) =>
+  sql(`${column} IN (${values.map(() => '?').join(', ')})`, ...values)
+
+// A LIKE pattern matching `text` anywhere, with the user's own % and _
+// matched literally. Use it with LIKE_ESCAPE.
+export const containsPattern = (text: string) => `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`
+
+export const LIKE_ESCAPE = "ESCAPE '\\'"
@@ -0,0 +1,39 @@
+import type { MessageKey } from './i18n'
+import type { TrackedStatus } from '../types/trackedApplication'
+import type { Job } from '../types/job'
+
+export const TRACKED_STATUSES: TrackedStatus[] = [
+  'applied',
+  'heard_back',
+  'interviewing',
+  'offer',
+  'accepted',
+  'rejected',
+  'withdrawn'
+]
+
+export const TRACKED_STATUS_LABELS: Record<TrackedStatus, MessageKey> = {
+  applied: 'trackedStatus.applied',
+  heard_back: 'trackedStatus.heardBack',
+  interviewing: 'trackedStatus.interviewing',
+  offer: 'trackedStatus.offer',
+  accepted: 'trackedStatus.accepted',
+  rejected: 'trackedStatus.rejected',
+  withdrawn: 'trackedStatus.withdrawn'
+}
+
+export const TRACKED_STATUS_CLASSES: Record<TrackedStatus, string> = {
+  applied: 'bg-gray-100 text-gray-700 border-gray-200',
+  heard_back: 'bg-blue-50 text-blue-700 border-blue-200',
+  interviewing: 'bg-purple-50 text-purple-700 border-purple-200',
+  offer: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  accepted: 'bg-green-50 text-green-700 border-green-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+  withdrawn: 'bg-gray-100 text-gray-500 border-gray-200'
+}
+
+export const APPLY_METHOD_LABELS: Record<Job['applicationType'], MessageKey> = {
+  email: 'applyMethod.email',
+  link: 'applyMethod.link',
+  onsite: 'applyMethod.onsite'
+}
@@ -0,0 +1,26 @@
+export type ApplicationStage = 'applied' | 'screening' | 'interview' | 'offer' | 'hired' | 'rejected'
+
+export interface StageChange {
+  stage: ApplicationStage
+  changedAt: string
+}
+
+// A candidate's in-app application to a job with applicationType 'onsite'
+export interface Application {
+  id: string
+  jobId: string
+  userId: string
+  name: string
+  email: string
+  coverLetter?: string
+  // Where the resume is kept in storage. It's opened with
+  // applicationsRepository.resumeLink, which checks who's asking.
+  resumePath?: string
+  resumeFileName?: string
+  stage: ApplicationStage
+  // Every stage the application has been in, oldest first
+  stageHistory: StageChange[]
+  createdAt: string
+}
+
+export type ApplicationInput = Pick<Application, 'name' | 'email' | 'coverLetter'>
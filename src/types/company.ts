@@ -0,0 +1,22 @@
+export type CompanySize = '1-10' | '11-50' | '51-200' | '201-1000' | '1001+'
+
+// An employer profile that postings link to. Jobs keep a copy of the name in
+// `Job.company`, so older postings without a profile still show one.
+export interface Company {
+  id: string
+  name: string
+  logoUrl?: string
+  website?: string
+  size?: CompanySize
+  industry?: string
+  description?: string
+  // Set by the board's staff once the employer has been checked
+  verified: boolean
+  // Whoever created the profile; only they can edit it
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Fields a poster supplies; the logo is uploaded separately
+export type CompanyInput = Pick<Company, 'name' | 'website' | 'size' | 'industry' | 'description'>
@@ -0,0 +1,97 @@
+// Only active postings are listed on the board. Active jobs past their
+// expiresAt date are reported as expired. Published postings wait in
+// 'pending' until a moderator approves them, or they're 'rejected'.
+export type JobStatus = 'draft' | 'pending' | 'rejected' | 'active' | 'paused' | 'expired' | 'filled'
+
+export type ModerationFlagKind = 'suspiciousLink' | 'freeMailAddress' | 'salaryOutlier' | 'bannedWord'
+
+// Raised automatically when a posting is saved, for moderators to look at.
+// `detail` is what triggered it: the link, email domain, word, or the
+// annual salary in USD.
+export interface ModerationFlag {
+  kind: ModerationFlagKind
+  detail: string
+}
+
+// What salaryMin/salaryMax are paid per. Rows from before periods existed are annual.
+export type SalaryPeriod = 'hour' | 'day' | 'month' | 'year'
+
+// Where the work happens. Rows from before workplace types existed are
+// on-site unless their location text mentions remote work.
+export type WorkplaceType = 'onsite' | 'hybrid' | 'remote'
+
+export interface Job {
+  id: string
+  title: string
+  // The company's name, copied from its profile when there is one
+  company: string
+  companyId?: string
+  // Display label, e.g. "Berlin, Germany" or "Remote". Older postings only
+  // have this free-text field; newer ones also carry the structured place
+  // below, picked from the bundled gazetteer (lib/gazetteer.json).
+  location: string
+  city?: string
+  region?: string
+  // ISO 3166-1 alpha-2 code
+  country?: string
+  latitude?: number
+  longitude?: number
+  workplaceType: WorkplaceType
+  // IANA timezones remote and hybrid candidates may work from; empty means any
+  timezones: string[]
+  salaryMin?: number
+  salaryMax?: number
+  salaryCurrency: string
+  salaryPeriod: SalaryPeriod
+  description: string
+  requirements?: string
+  benefits?: string
+  employmentType: string
+  experienceLevel: string
+  // 'onsite' applications are submitted and stored through the board itself
+  applicationType: 'email' | 'link' | 'onsite'
+  applicationEmail?: string
+  applicationLink?: string
+  tags: string[]
+  status: JobStatus
+  expiresAt?: string
+  moderationFlags: ModerationFlag[]
+  // Set once a moderator lets the posting on the board. Postings from
+  // before moderation existed never went through review.
+  approvedAt?: string
+  reviewedBy?: string
+  rejectionReason?: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Fields a poster supplies; ids, ownership, status, review and timestamps
+// are set by the data layer
+export type JobInput = Omit<
+  Job,
+  | 'id'
+  | 'status'
+  | 'moderationFlags'
+  | 'approvedAt'
+  | 'reviewedBy'
+  | 'rejectionReason'
+  | 'userId'
+  | 'createdAt'
+  | 'updatedAt'
+>
+
+export interface SavedJob {
+  id: string
+  jobId: string
+  userId: string
+  createdAt: string
+  // The user's own organization of their saves, never shown to anyone else
+  collection?: string
+  notes?: string
+  // The day they mean to apply by, and when they were reminded of it
+  remindAt?: string
+  remindedAt?: string
+}
+
+export type SavedJobDetails = Pick<SavedJob, 'collection' | 'notes' | 'remindAt'>
@@ -0,0 +1,10 @@
+// An in-app notification shown in the header bell. `link` is an in-app path.
+export interface AppNotification {
+  id: string
+  userId: string
+  title: string
+  body: string
+  link?: string
+  read: boolean
+  createdAt: string
+}
@@ -0,0 +1,17 @@
+export type ReportCategory = 'scam' | 'discriminatory' | 'expired' | 'wrongInfo'
+
+// 'open' until a moderator deals with it: 'dismissed' when the posting was
+// fine, 'actioned' when it was taken down
+export type ReportStatus = 'open' | 'dismissed' | 'actioned'
+
+// A user's report of a bad listing. The reporter is only stored so each
+// person counts once; it's never shown to the employer.
+export interface JobReport {
+  id: string
+  jobId: string
+  userId: string
+  category: ReportCategory
+  details?: string
+  status: ReportStatus
+  createdAt: string
+}
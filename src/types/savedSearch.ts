@@ -0,0 +1,13 @@
+import type { JobFilters } from '../lib/jobFilters'
+
+export interface SavedSearch {
+  id: string
+  userId: string
+  name: string
+  filters: JobFilters
+  // Jobs posted after this count as new in the header badge
+  lastSeenAt: string
+  // Jobs posted after this haven't been sent in a digest yet
+  lastNotifiedAt: string
+  createdAt: string
+}
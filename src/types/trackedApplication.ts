@@ -0,0 +1,26 @@
+import type { Job } from './job'
+
+// The candidate's own view of where an application stands, independent of
+// the employer's pipeline stage
+export type TrackedStatus = 'applied' | 'heard_back' | 'interviewing' | 'offer' | 'accepted' | 'rejected' | 'withdrawn'
+
+export interface TrackedStatusChange {
+  status: TrackedStatus
+  changedAt: string
+}
+
+// A personal record of an Apply click, kept even if the job is later removed
+export interface TrackedApplication {
+  id: string
+  userId: string
+  jobId: string
+  jobTitle: string
+  company: string
+  method: Job['applicationType']
+  status: TrackedStatus
+  notes?: string
+  // Every status the candidate has set, oldest first
+  history: TrackedStatusChange[]
+  createdAt: string
+  updatedAt: string
+}
@@ -0,0 +1,15 @@
+export type Role = 'candidate' | 'employer' | 'moderator' | 'admin'
+
+// What a role allows; see ROLE_PERMISSIONS in lib/permissions
+export type Permission = 'postJobs' | 'reviewJobs' | 'manageRoles' | 'verifyCompanies'
+
+// The signed-in user, combining the auth account with the board's own
+// profile row. The profile id is the auth user id.
+export interface UserProfile {
+  id: string
+  email: string
+  displayName?: string
+  roles: Role[]
+  createdAt: string
+  updatedAt: string
+}
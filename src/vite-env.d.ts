@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Send endpoint of a local mail catcher (e.g. Mailpit's /api/v1/send)
+  readonly VITE_MAIL_STUB_URL?: string
+  // Distinct reports that take a posting off the board until a moderator
+  // has looked at it. Defaults to 3.
+  readonly VITE_REPORT_HIDE_THRESHOLD?: string
+  // Comma-separated emails of accounts given the admin role on sign-in
+  readonly VITE_ADMIN_EMAILS?: string
+}